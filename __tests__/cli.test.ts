@@ -0,0 +1,181 @@
+import { jest } from '@jest/globals'
+import fs from 'fs'
+import { AppConfig, ApplicationResult } from '../src/types.js'
+
+const mockProcessApplication =
+  jest.fn<(config: AppConfig) => Promise<ApplicationResult>>()
+jest.unstable_mockModule('../src/main.js', () => ({
+  processApplication: mockProcessApplication
+}))
+const mockCoreError = jest.fn()
+jest.unstable_mockModule('@actions/core', () => ({
+  error: mockCoreError,
+  info: jest.fn()
+}))
+
+const { runCli, formatResultsTable } = await import('../src/cli.js')
+
+describe('cli', () => {
+  const configPath = 'test-config-cli.yaml'
+  let stdout: string[]
+  let stderr: string[]
+
+  beforeEach(() => {
+    process.exitCode = undefined
+    process.env.GITHUB_TOKEN = 'token'
+    stdout = []
+    stderr = []
+    jest
+      .spyOn(console, 'log')
+      .mockImplementation((line: string) => stdout.push(line))
+    jest
+      .spyOn(console, 'error')
+      .mockImplementation((line: string) => stderr.push(line))
+    fs.writeFileSync(
+      configPath,
+      [
+        'applications:',
+        '  - name: app',
+        '    repo: owner/app',
+        '    file: app.yaml',
+        '    path: image',
+        '  - repo: owner/tool',
+        '    type: manual',
+        "    version: '1.0.0'"
+      ].join('\n')
+    )
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    fs.unlinkSync(configPath)
+    delete process.env.GITHUB_TOKEN
+    process.exitCode = undefined
+  })
+
+  describe('formatResultsTable', () => {
+    const results: ApplicationResult[] = [
+      {
+        name: 'app',
+        status: 'updated',
+        currentVersion: '1.0.0',
+        newVersion: '2.0.0',
+        bumpType: 'major',
+        risk: 'Low'
+      },
+      { name: 'tool', status: 'up-to-date', currentVersion: '1.0.0' }
+    ]
+
+    it('aligns the columns', () => {
+      expect(formatResultsTable(results, 'check').split('\n')).toEqual([
+        'APPLICATION  CURRENT  LATEST  BUMP   RISK  STATUS',
+        'app          1.0.0    2.0.0   major  Low   update available',
+        'tool         1.0.0    -       -      -     up-to-date'
+      ])
+    })
+
+    it('colors cells without changing their width', () => {
+      const table = formatResultsTable(results, 'apply', true)
+      expect(table).toContain('\x1b[31mmajor\x1b[0m')
+      // eslint-disable-next-line no-control-regex
+      expect(table.replace(/\x1b\[\d+m/g, '')).toBe(
+        formatResultsTable(results, 'apply')
+      )
+    })
+  })
+
+  describe('runCli', () => {
+    it('checks every application without writing', async () => {
+      mockProcessApplication.mockResolvedValue({
+        name: 'app',
+        status: 'up-to-date'
+      })
+      await runCli(['check', '--config', configPath])
+
+      expect(mockProcessApplication).toHaveBeenCalledTimes(2)
+      const [[config]] = mockProcessApplication.mock.calls
+      expect(config).toMatchObject({
+        repo: 'owner/app',
+        targets: [{ file: 'app.yaml', path: 'image' }],
+        dryRun: true,
+        local: true,
+        githubToken: 'token'
+      })
+      expect(stdout.at(-1)).toBe('\n0 update(s) available')
+      expect(process.exitCode).toBeUndefined()
+    })
+
+    it('applies updates for the selected applications', async () => {
+      mockProcessApplication.mockResolvedValue({
+        name: 'tool',
+        status: 'updated'
+      })
+      await runCli(['apply', '-c', configPath, '--app', 'owner/tool'])
+
+      expect(mockProcessApplication).toHaveBeenCalledTimes(1)
+      expect(mockProcessApplication.mock.calls[0][0]).toMatchObject({
+        repo: 'owner/tool',
+        dryRun: false,
+        local: true
+      })
+      expect(stdout.at(-1)).toBe('\n1 update(s) written')
+    })
+
+    it('reports failures and sets the exit code', async () => {
+      mockProcessApplication
+        .mockRejectedValueOnce(new Error('rate limited'))
+        .mockResolvedValueOnce({ name: 'owner/tool', status: 'up-to-date' })
+      await runCli(['check', '-c', configPath])
+
+      expect(stdout[0]).toContain('app')
+      expect(stderr).toEqual(['✖ app: rate limited'])
+      expect(process.exitCode).toBe(1)
+    })
+
+    it('prints config problems without workflow annotations', async () => {
+      fs.writeFileSync(
+        configPath,
+        'applications:\n  - repo: owner/app\n    source: gitlab-tags\n'
+      )
+      await runCli(['check', '-c', configPath])
+
+      expect(mockCoreError).not.toHaveBeenCalled()
+      expect(stderr[0]).toContain(`${configPath} has 1 problem(s):`)
+      expect(stderr[0]).toContain(`${configPath}:3:5:`)
+      expect(process.exitCode).toBe(1)
+    })
+
+    it('only requires a GitHub token for GitHub sources', async () => {
+      delete process.env.GITHUB_TOKEN
+      fs.writeFileSync(
+        configPath,
+        'applications:\n  - repo: org/app\n    source: registry\n    file: app.yaml\n    path: image\n'
+      )
+      mockProcessApplication.mockResolvedValue({
+        name: 'org/app',
+        status: 'up-to-date'
+      })
+      await runCli(['check', '-c', configPath])
+      expect(mockProcessApplication).toHaveBeenCalledTimes(1)
+      expect(process.exitCode).toBeUndefined()
+
+      fs.writeFileSync(
+        configPath,
+        'applications:\n  - repo: owner/app\n    source: github-tags\n    file: app.yaml\n    path: image\n'
+      )
+      await runCli(['check', '-c', configPath])
+      expect(stderr).toEqual([
+        'A GitHub token is required for GitHub sources: set GITHUB_TOKEN or pass --github-token'
+      ])
+      expect(mockProcessApplication).toHaveBeenCalledTimes(1)
+      expect(process.exitCode).toBe(2)
+    })
+
+    it('rejects unknown commands', async () => {
+      await runCli(['upgrade'])
+      expect(stderr[0]).toBe('Unknown command: upgrade')
+      expect(mockProcessApplication).not.toHaveBeenCalled()
+      expect(process.exitCode).toBe(2)
+    })
+  })
+})
@@ -0,0 +1,349 @@
+import { jest } from '@jest/globals'
+import fs from 'fs'
+import { AppConfig } from '../src/types.js'
+
+const mockCore = {
+  error: jest.fn(),
+  info: jest.fn()
+}
+jest.unstable_mockModule('@actions/core', () => mockCore)
+
+const {
+  loadApplications,
+  resolveApplications,
+  toAppConfig,
+  validateConfig,
+  locateSchemaPath
+} = await import('../src/config.js')
+
+describe('config', () => {
+  const inputs: AppConfig = {
+    repo: 'input/repo',
+    type: 'helm',
+    source: 'dockerhub',
+    targets: [{ file: 'input.yaml', path: 'image' }],
+    releaseFilter: 'input-filter',
+    versioning: 'semver',
+    maxReleases: Infinity,
+    baseBranch: 'main',
+    dryRun: true,
+    githubToken: 'token',
+    gitUserName: 'bot',
+    gitUserEmail: 'bot@example.com',
+    configFile: 'versions-config.yaml',
+    includePrereleases: false,
+    versionLag: 1,
+    versionLagDepth: 'minor'
+  }
+
+  describe('toAppConfig', () => {
+    it('takes identity fields from the entry only', () => {
+      const config = toAppConfig({ repo: 'owner/app' }, inputs)
+      expect(config.repo).toBe('owner/app')
+      expect(config.type).toBe('kubernetes')
+      expect(config.source).toBe('github')
+      expect(config.targets).toEqual([])
+      expect(config.releaseFilter).toBeUndefined()
+    })
+
+    it('falls back to the inputs for tuning fields', () => {
+      const config = toAppConfig(
+        { repo: 'owner/app', versionLagDepth: 'patch' },
+        inputs
+      )
+      expect(config.versionLag).toBe(1)
+      expect(config.versionLagDepth).toBe('patch')
+      expect(config.githubToken).toBe('token')
+      expect(config.dryRun).toBe(true)
+    })
+
+    it('maps the file/path shorthand and scalar values', () => {
+      const config = toAppConfig(
+        {
+          repo: 'owner/app',
+          type: 'manual',
+          file: 'apps/app.yaml',
+          path: 'spec.source.targetRevision',
+          version: 2.1,
+          ignoreVersions: '2.2.0'
+        },
+        inputs
+      )
+      expect(config.targets).toEqual([
+        { file: 'apps/app.yaml', path: 'spec.source.targetRevision' }
+      ])
+      expect(config.version).toBe('2.1')
+      expect(config.ignoreVersions).toEqual(['2.2.0'])
+    })
+
+    it('overrides the AI settings but keeps the API key', () => {
+      const config = toAppConfig(
+        { repo: 'owner/app', openaiModel: 'gpt-4o-mini' },
+        { ...inputs, openaiConfig: { apiKey: 'key', model: 'gpt-4o' } }
+      )
+      expect(config.openaiConfig).toMatchObject({
+        apiKey: 'key',
+        model: 'gpt-4o-mini'
+      })
+    })
+    it('keeps the source token input to the source_base_url host', () => {
+      const withSource = {
+        ...inputs,
+        sourceConfig: { baseURL: 'https://gitlab.com', token: 'input-token' }
+      }
+      process.env.TEST_GITEA_TOKEN = 'gitea-token'
+      try {
+        expect(
+          toAppConfig({ repo: 'owner/app' }, withSource).sourceConfig
+        ).toEqual(withSource.sourceConfig)
+        expect(
+          toAppConfig(
+            { repo: 'owner/app', sourceBaseUrl: 'https://git.example.com' },
+            withSource
+          ).sourceConfig
+        ).toEqual({ baseURL: 'https://git.example.com', token: undefined })
+        expect(
+          toAppConfig(
+            {
+              repo: 'owner/app',
+              sourceBaseUrl: 'https://git.example.com',
+              sourceTokenEnv: 'TEST_GITEA_TOKEN'
+            },
+            withSource
+          ).sourceConfig
+        ).toEqual({ baseURL: 'https://git.example.com', token: 'gitea-token' })
+      } finally {
+        delete process.env.TEST_GITEA_TOKEN
+      }
+    })
+  })
+
+  describe('resolveApplications', () => {
+    it('applies defaults, then presets in order, then the entry', () => {
+      const [app] = resolveApplications({
+        defaults: {
+          source: 'dockerhub',
+          labels: ['deps'],
+          updatePolicy: { major: 'issue' }
+        },
+        presets: {
+          base: { versioning: 'docker', maxReleases: 5 },
+          cautious: {
+            extends: 'base',
+            minimumReleaseAge: '3d',
+            updatePolicy: { minor: 'draft' }
+          },
+          fast: { minimumReleaseAge: '1d' }
+        },
+        applications: [
+          {
+            repo: 'owner/app',
+            extends: ['cautious', 'fast'],
+            maxReleases: 10,
+            labels: ['team-a']
+          }
+        ]
+      })
+      expect(app).toEqual({
+        repo: 'owner/app',
+        source: 'dockerhub',
+        versioning: 'docker',
+        minimumReleaseAge: '1d',
+        maxReleases: 10,
+        labels: ['team-a'],
+        updatePolicy: { major: 'issue', minor: 'draft' }
+      })
+    })
+  })
+
+  describe('validateConfig', () => {
+    it('accepts complete entries', () => {
+      expect(
+        validateConfig({
+          applications: [
+            { repo: 'owner/app', targets: [{ file: 'a.yaml', path: 'image' }] },
+            { repo: 'owner/tool', type: 'manual', version: '1.0.0' }
+          ]
+        })
+      ).toEqual([])
+    })
+
+    it('checks fields that depend on the type and source', () => {
+      expect(
+        validateConfig({
+          applications: [
+            { repo: 'owner/tool', type: 'manual' },
+            { repo: 'https://charts.example.com', source: 'helmrepo' }
+          ]
+        })
+      ).toEqual([
+        {
+          path: ['applications', 0],
+          message: '"version" is required for manual applications'
+        },
+        {
+          path: ['applications', 1],
+          message: '"chart" is required for the helmrepo source'
+        },
+        {
+          path: ['applications', 1],
+          message: '"targets" (or "file" and "path") is required'
+        }
+      ])
+    })
+
+    it('checks the merged entries', () => {
+      expect(
+        validateConfig({
+          defaults: { file: 'a.yaml' },
+          presets: { image: { path: 'image' } },
+          applications: [
+            { repo: 'owner/app', extends: 'image' },
+            { repo: 'owner/other' }
+          ]
+        })
+      ).toEqual([
+        {
+          path: ['applications', 1],
+          message: '"targets" (or "file" and "path") is required'
+        }
+      ])
+    })
+
+    it('reports unknown and circular presets', () => {
+      expect(
+        validateConfig({
+          presets: {
+            a: { extends: 'b' },
+            b: { extends: ['a', 'c'] }
+          },
+          applications: [{ repo: 'owner/app', extends: 'missing' }]
+        })
+      ).toEqual([
+        {
+          path: ['presets', 'a', 'extends'],
+          message: 'presets extend each other in a loop: a → b → a'
+        },
+        { path: ['presets', 'b', 'extends'], message: 'unknown preset "c"' },
+        {
+          path: ['presets', 'b', 'extends'],
+          message: 'presets extend each other in a loop: b → a → b'
+        },
+        {
+          path: ['applications', 0, 'extends'],
+          message: 'unknown preset "missing"'
+        }
+      ])
+    })
+  })
+
+  describe('locateSchemaPath', () => {
+    const content = [
+      'applications:',
+      "  - repo: 'owner/app'",
+      '    targets:',
+      "      - file: 'a.yaml'",
+      "  - repo: 'owner/other'",
+      '    versionlag: 1'
+    ].join('\n')
+
+    it('points at keys and list items', () => {
+      expect(
+        locateSchemaPath(content, ['applications', 1, 'versionlag'])
+      ).toEqual({ line: 6, column: 5 })
+      expect(
+        locateSchemaPath(content, ['applications', 0, 'targets', 0])
+      ).toEqual({
+        line: 4,
+        column: 7
+      })
+    })
+
+    it('falls back to the closest parent', () => {
+      expect(locateSchemaPath(content, ['applications', 1, 'missing'])).toEqual(
+        {
+          line: 5,
+          column: 3
+        }
+      )
+    })
+  })
+
+  describe('loadApplications', () => {
+    const configPath = 'test-config-load.yaml'
+
+    afterEach(() => {
+      if (fs.existsSync(configPath)) fs.unlinkSync(configPath)
+    })
+
+    it('reads the applications list', () => {
+      fs.writeFileSync(
+        configPath,
+        "applications:\n  - repo: 'owner/app'\n    file: 'a.yaml'\n    path: 'image'\n"
+      )
+      expect(loadApplications(configPath)).toEqual([
+        { repo: 'owner/app', file: 'a.yaml', path: 'image' }
+      ])
+    })
+
+    it('annotates every problem with its location', () => {
+      fs.writeFileSync(
+        configPath,
+        [
+          'applications:',
+          "  - repo: 'owner/app'",
+          '    versionlag: 1',
+          '    targets:',
+          "      - file: 'a.yaml'"
+        ].join('\n')
+      )
+
+      expect(() => loadApplications(configPath)).toThrow(
+        `${configPath} has 2 problem(s):\n` +
+          `${configPath}:3:5: applications[0].versionlag: unknown property "versionlag" (did you mean "versionLag"?)\n` +
+          `${configPath}:5:7: applications[0].targets[0]: "path" is required`
+      )
+      expect(mockCore.error).toHaveBeenCalledWith(
+        'applications[0].targets[0]: "path" is required',
+        {
+          title: `Invalid ${configPath}`,
+          file: configPath,
+          startLine: 5,
+          startColumn: 7
+        }
+      )
+    })
+
+    it('returns the entries with defaults and presets applied', () => {
+      fs.writeFileSync(
+        configPath,
+        [
+          'defaults:',
+          '  minimumReleaseAge: 3d',
+          'presets:',
+          '  image:',
+          '    file: a.yaml',
+          '    path: image',
+          'applications:',
+          '  - repo: owner/app',
+          '    extends: image'
+        ].join('\n')
+      )
+      expect(loadApplications(configPath)).toEqual([
+        {
+          repo: 'owner/app',
+          minimumReleaseAge: '3d',
+          file: 'a.yaml',
+          path: 'image'
+        }
+      ])
+    })
+
+    it('fails without an applications list', () => {
+      fs.writeFileSync(configPath, 'apps: []\n')
+      expect(() => loadApplications(configPath)).toThrow(
+        '"applications" is required'
+      )
+    })
+  })
+})
@@ -1,30 +1,56 @@
 import { jest } from '@jest/globals'
 import fs from 'fs'
+import https from 'https'
+import { EventEmitter } from 'events'
+import { IncomingMessage } from 'http'
 
 // Mocks
 const mockCore = {
   getInput: jest.fn(),
   setFailed: jest.fn(),
+  setOutput: jest.fn(),
+  error: jest.fn(),
   info: jest.fn(),
   debug: jest.fn()
 }
 
 const mockExec = {
-  exec: jest.fn()
+  exec: jest.fn(),
+  getExecOutput: jest
+    .fn()
+    .mockReturnValue({ exitCode: 0, stdout: 'feature\n', stderr: '' })
 }
 
 const mockGithub = {
   getOctokit: jest.fn().mockReturnValue({
+    graphql: jest.fn(),
     rest: {
       repos: {
-        listReleases: jest.fn()
+        get: jest.fn().mockReturnValue({ data: { default_branch: 'main' } }),
+        listReleases: jest.fn(),
+        listTags: jest.fn(),
+        getCommit: jest.fn()
+      },
+      git: {
+        getRef: jest
+          .fn()
+          .mockReturnValue({ data: { object: { sha: 'base-sha' } } }),
+        updateRef: jest.fn(),
+        createRef: jest.fn()
       },
       pulls: {
         create: jest.fn().mockReturnValue({ data: { number: 123 } }),
+        get: jest.fn().mockReturnValue({
+          data: { node_id: 'PR_123', mergeable_state: '' }
+        }),
         update: jest.fn(),
         list: jest.fn().mockReturnValue({ data: [] })
       },
       issues: {
+        listForRepo: jest.fn().mockReturnValue({ data: [] }),
+        create: jest.fn().mockReturnValue({ data: { number: 7 } }),
+        update: jest.fn(),
+        createComment: jest.fn(),
         getLabel: jest.fn(),
         createLabel: jest.fn(),
         addLabels: jest.fn()
@@ -63,6 +89,8 @@ describe('End-to-End Version Update Action', () => {
   beforeEach(() => {
     jest.clearAllMocks()
     process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+    // The job summary is covered in summary.test.ts
+    delete process.env.GITHUB_STEP_SUMMARY
 
     // Default Inputs
     ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) => {
@@ -176,7 +204,8 @@ describe('End-to-End Version Update Action', () => {
     expect(mockExec.exec).toHaveBeenCalledWith('git', [
       'checkout',
       '-B',
-      expect.stringContaining('bot-update-repo-app-1.1.0')
+      expect.stringContaining('bot-update-repo-app-1.1.0'),
+      'origin/main'
     ])
     expect(mockExec.exec).toHaveBeenCalledWith('git', [
       'commit',
@@ -210,6 +239,1063 @@ describe('End-to-End Version Update Action', () => {
         labels: expect.arrayContaining(['Risk: Low', 'Worry-free'])
       })
     )
+    // Verify Outputs
+    const outputs = Object.fromEntries(mockCore.setOutput.mock.calls)
+    expect(outputs).toEqual({
+      updated: true,
+      current_version: '1.0.0',
+      new_version: '1.1.0',
+      bump_type: 'minor',
+      branch: 'bot-update-repo-app-1.1.0',
+      pr_number: 123,
+      pr_url: 'https://github.com/test-owner/test-repo/pull/123',
+      overall_risk: 'Low',
+      worry_free: true,
+      updates: JSON.stringify([
+        {
+          application: 'repo-app',
+          file: testManifestPath,
+          path: 'spec.template.spec.containers.0.image',
+          from: '1.0.0',
+          to: '1.1.0'
+        }
+      ])
+    })
+  })
+
+  it('enables auto-merge for worry-free updates within the risk threshold', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) => {
+      if (name === 'auto_merge') return 'true'
+      if (name === 'merge_method') return 'rebase'
+      return defaultInputs(name as string)
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octokit = mockGithub.getOctokit('fake-token') as any
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ;(octokit.rest.repos.listReleases as any).mockResolvedValue({
+      data: [
+        {
+          tag_name: 'v1.1.0',
+          html_url: 'http://example.com/1.1.0',
+          published_at: '2023-01-01T00:00:00Z'
+        },
+        {
+          tag_name: 'v1.0.0',
+          html_url: 'http://example.com/1.0.0',
+          published_at: '2022-01-01T00:00:00Z'
+        }
+      ]
+    })
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ;(mockOpenAI() as any).chat.completions.create.mockResolvedValue({
+      choices: [
+        {
+          message: {
+            content: JSON.stringify({
+              summary: 'Minor bug fixes',
+              worryFree: true,
+              risk: 'Low'
+            })
+          }
+        }
+      ]
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+
+    expect(octokit.graphql).toHaveBeenCalledWith(
+      expect.stringContaining('enablePullRequestAutoMerge'),
+      { pullRequestId: 'PR_123', mergeMethod: 'REBASE' }
+    )
+    expect(octokit.rest.issues.createComment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        issue_number: 123,
+        body: expect.stringContaining('worry-free with Low risk')
+      })
+    )
+  })
+
+  it('resolves and writes the new digest for pinned images', async () => {
+    fs.writeFileSync(
+      testManifestPath,
+      'spec:\n  template:\n    spec:\n      containers:\n      - image: myrepo/app:1.0.0@sha256:old'
+    )
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octokit = mockGithub.getOctokit('fake-token') as any
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ;(octokit.rest.repos.listReleases as any).mockResolvedValue({
+      data: [
+        {
+          tag_name: 'v1.1.0',
+          html_url: 'http://example.com/1.1.0',
+          published_at: '2023-01-01T00:00:00Z'
+        },
+        {
+          tag_name: 'v1.0.0',
+          html_url: 'http://example.com/1.0.0',
+          published_at: '2022-01-01T00:00:00Z'
+        }
+      ]
+    })
+
+    const manifestUrls: string[] = []
+    const httpsGetSpy = jest.spyOn(https, 'get').mockImplementation(((
+      url: string,
+      _options: unknown,
+      callback: (res: IncomingMessage) => void
+    ) => {
+      manifestUrls.push(url)
+      const res = new EventEmitter() as unknown as IncomingMessage
+      res.statusCode = 200
+      res.headers = { 'docker-content-digest': 'sha256:new' }
+      setTimeout(() => {
+        callback(res)
+        res.emit('data', '{}')
+        res.emit('end')
+      }, 0)
+      return { on: jest.fn().mockReturnThis() }
+    }) as unknown as typeof https.get)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+    httpsGetSpy.mockRestore()
+
+    expect(manifestUrls).toEqual([
+      'https://registry-1.docker.io/v2/myrepo/app/manifests/1.1.0'
+    ])
+    const updatedContent = fs.readFileSync(testManifestPath, 'utf8')
+    expect(updatedContent).toContain('image: myrepo/app:1.1.0@sha256:new')
+  })
+
+  it('skips ignored versions and lists them in the PR body', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) => {
+      if (name === 'ignore_versions') return 'v1.2.0\n/-broken$/'
+      if (name === 'openai_api_key') return ''
+      return defaultInputs(name as string)
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octokit = mockGithub.getOctokit('fake-token') as any
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ;(octokit.rest.repos.listReleases as any).mockResolvedValue({
+      data: [
+        {
+          tag_name: 'v1.2.0',
+          html_url: 'http://example.com/1.2.0',
+          published_at: '2023-02-01T00:00:00Z'
+        },
+        {
+          tag_name: 'v1.1.0',
+          html_url: 'http://example.com/1.1.0',
+          published_at: '2023-01-01T00:00:00Z'
+        },
+        {
+          tag_name: 'v1.0.0',
+          html_url: 'http://example.com/1.0.0',
+          published_at: '2022-01-01T00:00:00Z'
+        }
+      ]
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+
+    const updatedContent = fs.readFileSync(testManifestPath, 'utf8')
+    expect(updatedContent).toContain('myrepo/app:1.1.0')
+    expect(octokit.rest.pulls.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.stringContaining(
+          '[v1.2.0](http://example.com/1.2.0)**: ignored by `v1.2.0`'
+        )
+      })
+    )
+  })
+
+  it.each([
+    ['ignore_versions', '1.0.0', 'stays on 1.0.0'],
+    ['allowed_versions', '0.9.0 - 0.9', '1.0.0 is outside the allowed range']
+  ])(
+    'does not downgrade when %s drops the current version',
+    async (input, value, message) => {
+      const defaultInputs = (
+        mockCore.getInput as jest.Mock<(name: string) => string>
+      ).getMockImplementation()!
+      ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) =>
+        name === input
+          ? value
+          : name === 'openai_api_key'
+            ? ''
+            : defaultInputs(name as string)
+      )
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const octokit = mockGithub.getOctokit('fake-token') as any
+      octokit.rest.repos.listReleases.mockResolvedValue({
+        data: ['v1.0.0', 'v0.9.0'].map((tag) => ({
+          tag_name: tag,
+          html_url: `http://example.com/${tag}`,
+          published_at: '2023-01-01T00:00:00Z'
+        }))
+      })
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (run as any)()
+
+      expect(mockCore.setFailed).not.toHaveBeenCalled()
+      expect(fs.readFileSync(testManifestPath, 'utf8')).toContain(
+        'myrepo/app:1.0.0'
+      )
+      expect(octokit.rest.pulls.create).not.toHaveBeenCalled()
+      expect(mockCore.info).toHaveBeenCalledWith(
+        expect.stringContaining('stays on 1.0.0')
+      )
+      expect(mockCore.info).toHaveBeenCalledWith(
+        expect.stringContaining(message)
+      )
+    }
+  )
+
+  it('holds back releases younger than minimum_release_age', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) => {
+      if (name === 'minimum_release_age') return '3d'
+      if (name === 'openai_api_key') return ''
+      return defaultInputs(name as string)
+    })
+
+    const fresh = new Date(Date.now() - 24 * 60 * 60 * 1000)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octokit = mockGithub.getOctokit('fake-token') as any
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ;(octokit.rest.repos.listReleases as any).mockResolvedValue({
+      data: [
+        {
+          tag_name: 'v1.2.0',
+          html_url: 'http://example.com/1.2.0',
+          published_at: fresh.toISOString()
+        },
+        {
+          tag_name: 'v1.1.0',
+          html_url: 'http://example.com/1.1.0',
+          published_at: '2023-01-01T00:00:00Z'
+        },
+        {
+          tag_name: 'v1.0.0',
+          html_url: 'http://example.com/1.0.0',
+          published_at: '2022-01-01T00:00:00Z'
+        }
+      ]
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+
+    const eligible = new Date(
+      fresh.getTime() + 3 * 24 * 60 * 60 * 1000
+    ).toISOString()
+    const updatedContent = fs.readFileSync(testManifestPath, 'utf8')
+    expect(updatedContent).toContain('myrepo/app:1.1.0')
+    expect(mockCore.setOutput).toHaveBeenCalledWith(
+      'next_eligible_at',
+      eligible
+    )
+    expect(mockCore.info).toHaveBeenCalledWith(
+      expect.stringContaining(
+        `v1.2.0 is younger than 3d, eligible on ${eligible}`
+      )
+    )
+  })
+
+  it('leaves images without a tag untouched', async () => {
+    fs.writeFileSync(
+      testManifestPath,
+      'spec:\n  template:\n    spec:\n      containers:\n      - image: docker.io/library/redis'
+    )
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octokit = mockGithub.getOctokit('fake-token') as any
+    octokit.rest.repos.listReleases.mockResolvedValue({
+      data: [{ tag_name: 'v7.2.0', html_url: 'http://example.com/7.2.0' }]
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+
+    expect(mockCore.setFailed).not.toHaveBeenCalled()
+    expect(fs.readFileSync(testManifestPath, 'utf8')).toContain(
+      'image: docker.io/library/redis'
+    )
+    expect(fs.readFileSync(testManifestPath, 'utf8')).not.toContain('7.2.0')
+    expect(mockCore.info).toHaveBeenCalledWith(
+      expect.stringContaining('has no tag, skipping')
+    )
+    expect(octokit.rest.pulls.create).not.toHaveBeenCalled()
+  })
+
+  it('keeps a current release that is itself younger than minimum_release_age', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) => {
+      if (name === 'minimum_release_age') return '3d'
+      if (name === 'openai_api_key') return ''
+      return defaultInputs(name as string)
+    })
+    fs.writeFileSync(
+      testManifestPath,
+      'spec:\n  template:\n    spec:\n      containers:\n      - image: myrepo/app:1.2.0'
+    )
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octokit = mockGithub.getOctokit('fake-token') as any
+    octokit.rest.repos.listReleases.mockResolvedValue({
+      data: [
+        {
+          tag_name: 'v1.2.0',
+          html_url: 'http://example.com/1.2.0',
+          published_at: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString()
+        },
+        {
+          tag_name: 'v1.1.0',
+          html_url: 'http://example.com/1.1.0',
+          published_at: '2023-01-01T00:00:00Z'
+        }
+      ]
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+
+    expect(mockCore.setFailed).not.toHaveBeenCalled()
+    expect(fs.readFileSync(testManifestPath, 'utf8')).toContain(
+      'myrepo/app:1.2.0'
+    )
+    expect(octokit.rest.pulls.create).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    ['holds back', 'false', 'myrepo/app:1.0.0'],
+    ['proposes', 'true', 'myrepo/app:1.1.0']
+  ])(
+    '%s undated releases under minimum_release_age when allow_undated_releases is %s',
+    async (_, allowUndated, image) => {
+      const defaultInputs = (
+        mockCore.getInput as jest.Mock<(name: string) => string>
+      ).getMockImplementation()!
+      ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) => {
+        if (name === 'minimum_release_age') return '3d'
+        if (name === 'allow_undated_releases') return allowUndated
+        if (name === 'openai_api_key') return ''
+        return defaultInputs(name as string)
+      })
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const octokit = mockGithub.getOctokit('fake-token') as any
+      octokit.rest.repos.listReleases.mockResolvedValue({
+        data: [
+          { tag_name: 'v1.1.0', html_url: 'http://example.com/1.1.0' },
+          {
+            tag_name: 'v1.0.0',
+            html_url: 'http://example.com/1.0.0',
+            published_at: '2022-01-01T00:00:00Z'
+          }
+        ]
+      })
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (run as any)()
+
+      expect(mockCore.setFailed).not.toHaveBeenCalled()
+      expect(fs.readFileSync(testManifestPath, 'utf8')).toContain(image)
+      expect(mockCore.info).toHaveBeenCalledWith(
+        expect.stringContaining('v1.1.0 has no publish date')
+      )
+    }
+  )
+
+  it('only looks up the tags that remain after filtering', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) => {
+      if (name === 'source') return 'github-tags'
+      if (name === 'ignore_versions') return '1.2.0'
+      if (name === 'openai_api_key') return ''
+      return defaultInputs(name as string)
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octokit = mockGithub.getOctokit('fake-token') as any
+    octokit.rest.repos.listTags.mockResolvedValue({
+      data: [
+        { name: 'v1.2.0', commit: { sha: 'sha120' } },
+        { name: 'v1.1.0', commit: { sha: 'sha110' } },
+        { name: 'v1.0.0', commit: { sha: 'sha100' } }
+      ]
+    })
+    octokit.rest.repos.getCommit.mockResolvedValue({
+      data: { commit: { committer: { date: '2024-01-01T00:00:00Z' } } }
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+
+    expect(mockCore.setFailed).not.toHaveBeenCalled()
+    expect(fs.readFileSync(testManifestPath, 'utf8')).toContain(
+      'myrepo/app:1.1.0'
+    )
+    expect(octokit.rest.repos.getCommit).toHaveBeenCalledTimes(1)
+    expect(octokit.rest.repos.getCommit).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: 'sha110' })
+    )
+  })
+
+  it('opens a tracking issue for major updates when configured', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) => {
+      if (name === 'update_policy') return '{"major":"issue"}'
+      if (name === 'openai_api_key') return ''
+      return defaultInputs(name as string)
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octokit = mockGithub.getOctokit('fake-token') as any
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ;(octokit.rest.repos.listReleases as any).mockResolvedValue({
+      data: [
+        {
+          tag_name: 'v2.0.0',
+          html_url: 'http://example.com/2.0.0',
+          published_at: '2023-01-01T00:00:00Z'
+        },
+        {
+          tag_name: 'v1.0.0',
+          html_url: 'http://example.com/1.0.0',
+          published_at: '2022-01-01T00:00:00Z'
+        }
+      ]
+    })
+    const staleIssue = {
+      data: [{ number: 3, title: 'chore: update repo-app from 1.0.0 to 1.5.0' }]
+    }
+    octokit.rest.issues.listForRepo
+      .mockReturnValueOnce(staleIssue)
+      .mockReturnValueOnce(staleIssue)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+
+    const content = fs.readFileSync(testManifestPath, 'utf8')
+    expect(content).toContain('myrepo/app:1.0.0')
+    // Only the base branch checkout and the restore of the original branch
+    expect(
+      mockExec.exec.mock.calls.map((c) => (c[1] as string[]).join(' '))
+    ).toEqual([
+      'fetch origin main',
+      'checkout -B main origin/main',
+      'checkout feature'
+    ])
+    expect(octokit.rest.pulls.create).not.toHaveBeenCalled()
+    expect(octokit.rest.issues.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: 'chore: update repo-app from 1.0.0 to 2.0.0'
+      })
+    )
+    expect(octokit.rest.issues.update).toHaveBeenCalledWith(
+      expect.objectContaining({ issue_number: 3, state: 'closed' })
+    )
+  })
+
+  it('rejects an invalid update_policy input', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) =>
+      name === 'update_policy'
+        ? '{"major":"isssue"}'
+        : defaultInputs(name as string)
+    )
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('update_policy input has 1 problem(s)')
+    )
+    expect(mockExec.exec).not.toHaveBeenCalled()
+  })
+
+  it('processes every application in config mode and isolates failures', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) => {
+      if (name === 'mode') return 'config'
+      if (name === 'config_file') return 'test-config-mode.yaml'
+      if (name === 'repo' || name === 'targets') return ''
+      if (name === 'openai_api_key') return ''
+      return defaultInputs(name as string)
+    })
+    fs.writeFileSync(
+      'test-config-mode.yaml',
+      [
+        'applications:',
+        '  - name: broken',
+        "    repo: 'broken'",
+        "    source: 'gitlab'",
+        `    file: '${testManifestPath}'`,
+        "    path: 'spec.template.spec.containers.0.image'",
+        '  - name: app',
+        "    repo: 'owner/repo-app'",
+        `    file: '${testManifestPath}'`,
+        "    path: 'spec.template.spec.containers.0.image'"
+      ].join('\n')
+    )
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octokit = mockGithub.getOctokit('fake-token') as any
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ;(octokit.rest.repos.listReleases as any).mockResolvedValue({
+      data: [
+        {
+          tag_name: 'v1.1.0',
+          html_url: 'http://example.com/1.1.0',
+          published_at: '2023-01-01T00:00:00Z'
+        },
+        {
+          tag_name: 'v1.0.0',
+          html_url: 'http://example.com/1.0.0',
+          published_at: '2022-01-01T00:00:00Z'
+        }
+      ]
+    })
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (run as any)()
+    } finally {
+      fs.unlinkSync('test-config-mode.yaml')
+    }
+
+    const updatedContent = fs.readFileSync(testManifestPath, 'utf8')
+    expect(updatedContent).toContain('myrepo/app:1.1.0')
+    expect(octokit.rest.pulls.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: 'chore: update repo-app from 1.0.0 to 1.1.0'
+      })
+    )
+    expect(mockCore.info).toHaveBeenCalledWith(
+      expect.stringContaining(
+        '❌ broken: failed (Invalid repo format for GitLab source: broken)'
+      )
+    )
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      '1 application(s) failed: broken'
+    )
+    expect(mockCore.setOutput).toHaveBeenCalledWith('updated', true)
+    expect(mockCore.setOutput).not.toHaveBeenCalledWith(
+      'new_version',
+      expect.anything()
+    )
+  })
+
+  it('opens one pull request for a group of applications', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) => {
+      if (name === 'mode') return 'config'
+      if (name === 'config_file') return 'test-config-group.yaml'
+      if (name === 'repo' || name === 'targets') return ''
+      if (name === 'openai_api_key') return ''
+      return defaultInputs(name as string)
+    })
+    const otherManifestPath = 'test-manifest-other.yaml'
+    fs.writeFileSync(otherManifestPath, 'image: myrepo/other:1.0.0\n')
+    fs.writeFileSync(
+      'test-config-group.yaml',
+      [
+        'defaults:',
+        '  group: stack',
+        'applications:',
+        "  - repo: 'owner/repo-app'",
+        `    file: '${testManifestPath}'`,
+        "    path: 'spec.template.spec.containers.0.image'",
+        "  - repo: 'owner/other'",
+        `    file: '${otherManifestPath}'`,
+        "    path: 'image'"
+      ].join('\n')
+    )
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octokit = mockGithub.getOctokit('fake-token') as any
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    ;(octokit.rest.repos.listReleases as any).mockResolvedValue({
+      data: [
+        {
+          tag_name: 'v1.1.0',
+          html_url: 'http://example.com/1.1.0',
+          published_at: '2023-01-01T00:00:00Z'
+        },
+        {
+          tag_name: 'v1.0.0',
+          html_url: 'http://example.com/1.0.0',
+          published_at: '2022-01-01T00:00:00Z'
+        }
+      ]
+    })
+    octokit.rest.pulls.list.mockReturnValueOnce({
+      data: [
+        {
+          number: 5,
+          title: 'old group update',
+          head: { ref: 'bot-group-stack-00000000' }
+        },
+        {
+          number: 6,
+          title: 'other group update',
+          head: { ref: 'bot-group-stack-web-00000000' }
+        }
+      ]
+    })
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (run as any)()
+    } finally {
+      fs.unlinkSync('test-config-group.yaml')
+    }
+
+    expect(fs.readFileSync(otherManifestPath, 'utf8')).toContain(
+      'myrepo/other:1.1.0'
+    )
+    fs.unlinkSync(otherManifestPath)
+    expect(fs.readFileSync(testManifestPath, 'utf8')).toContain(
+      'myrepo/app:1.1.0'
+    )
+
+    const gitCalls = mockExec.exec.mock.calls.map((c) =>
+      (c[1] as string[]).join(' ')
+    )
+    expect(gitCalls).toEqual(
+      expect.arrayContaining([
+        'checkout -B bot-group-stack origin/main',
+        'commit -m chore: update repo-app from 1.0.0 to 1.1.0',
+        'commit -m chore: update other from 1.0.0 to 1.1.0'
+      ])
+    )
+    expect(gitCalls.filter((c) => c.startsWith('push'))).toEqual([
+      expect.stringMatching(/^push origin bot-group-stack-[0-9a-f]{8} --force$/)
+    ])
+
+    expect(octokit.rest.pulls.create).toHaveBeenCalledTimes(1)
+    const [[pr]] = octokit.rest.pulls.create.mock.calls
+    expect(pr.title).toBe('chore: update stack (repo-app, other)')
+    expect(pr.body).toContain('Automated version update for **repo-app**')
+    expect(pr.body).toContain('Automated version update for **other**')
+    expect(octokit.rest.pulls.update).toHaveBeenCalledWith(
+      expect.objectContaining({ pull_number: 5, state: 'closed' })
+    )
+    expect(octokit.rest.pulls.update).not.toHaveBeenCalledWith(
+      expect.objectContaining({ pull_number: 6 })
+    )
+  })
+
+  it('targets the base_branch input and restores the original branch', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) =>
+      name === 'base_branch' ? 'develop' : defaultInputs(name as string)
+    )
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octokit = mockGithub.getOctokit('fake-token') as any
+    octokit.rest.repos.listReleases.mockResolvedValue({
+      data: [
+        {
+          tag_name: 'v1.1.0',
+          html_url: 'http://example.com/1.1.0',
+          published_at: '2023-01-01T00:00:00Z'
+        }
+      ]
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+
+    expect(octokit.rest.repos.get).not.toHaveBeenCalled()
+    const gitCalls = mockExec.exec.mock.calls.map((c) =>
+      (c[1] as string[]).join(' ')
+    )
+    expect(gitCalls[0]).toBe('fetch origin develop')
+    expect(gitCalls[1]).toBe('checkout -B develop origin/develop')
+    expect(gitCalls).toContain(
+      'checkout -B bot-update-repo-app-1.1.0 origin/develop'
+    )
+    expect(gitCalls.slice(-2)).toEqual(['checkout develop', 'checkout feature'])
+    expect(octokit.rest.pulls.create).toHaveBeenCalledWith(
+      expect.objectContaining({ base: 'develop' })
+    )
+  })
+
+  it('commits through the API without local git in api commit mode', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) =>
+      name === 'commit_mode' ? 'api' : defaultInputs(name as string)
+    )
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octokit = mockGithub.getOctokit('fake-token') as any
+    octokit.rest.repos.listReleases.mockResolvedValue({
+      data: [
+        {
+          tag_name: 'v1.1.0',
+          html_url: 'http://example.com/1.1.0',
+          published_at: '2023-01-01T00:00:00Z'
+        }
+      ]
+    })
+    octokit.graphql.mockResolvedValue({
+      createCommitOnBranch: { commit: { oid: 'new-sha' } }
+    })
+    mockExec.getExecOutput.mockReturnValueOnce({
+      exitCode: 0,
+      stdout: 'base-sha\n',
+      stderr: ''
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+
+    expect(mockCore.setFailed).not.toHaveBeenCalled()
+    expect(mockExec.exec).not.toHaveBeenCalled()
+    expect(octokit.rest.git.updateRef).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ref: 'heads/bot-update-repo-app-1.1.0',
+        sha: 'base-sha',
+        force: true
+      })
+    )
+    const [, { input }] = octokit.graphql.mock.calls.find(([query]: [string]) =>
+      query.includes('createCommitOnBranch')
+    )
+    expect(input.message).toEqual({
+      headline: 'chore: update repo-app from 1.0.0 to 1.1.0'
+    })
+    const [change] = input.fileChanges.additions
+    expect(change.path).toBe(testManifestPath)
+    expect(Buffer.from(change.contents, 'base64').toString()).toContain(
+      'myrepo/app:1.1.0'
+    )
+    // The working tree is left as it was
+    expect(fs.readFileSync(testManifestPath, 'utf8')).toContain(
+      'myrepo/app:1.0.0'
+    )
+    expect(octokit.rest.pulls.create).toHaveBeenCalledWith(
+      expect.objectContaining({ head: 'bot-update-repo-app-1.1.0' })
+    )
+  })
+
+  it('refuses API commits when HEAD is not the latest base commit', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) =>
+      name === 'commit_mode' ? 'api' : defaultInputs(name as string)
+    )
+    mockExec.getExecOutput.mockReturnValueOnce({
+      exitCode: 0,
+      stdout: 'old-sha\n',
+      stderr: ''
+    })
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      'commit_mode "api" needs the latest commit of main (base-sha) checked out, but HEAD is at old-sha'
+    )
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const octokit = mockGithub.getOctokit('fake-token') as any
+    expect(octokit.graphql).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    ['include_prereleases', 'true'],
+    ['versioning', 'docker']
+  ])(
+    'keeps an unflavored tag off image variants with %s: %s',
+    async (input, value) => {
+      const defaultInputs = (
+        mockCore.getInput as jest.Mock<(name: string) => string>
+      ).getMockImplementation()!
+      ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) =>
+        name === input
+          ? value
+          : name === 'openai_api_key'
+            ? ''
+            : defaultInputs(name as string)
+      )
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const octokit = mockGithub.getOctokit('fake-token') as any
+      octokit.rest.repos.listReleases.mockResolvedValue({
+        data: ['1.1.0-alpine', '1.1.0-perl', '1.0.1', '1.0.0'].map((tag) => ({
+          tag_name: tag,
+          html_url: `http://example.com/${tag}`,
+          published_at: '2023-01-01T00:00:00Z'
+        }))
+      })
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (run as any)()
+
+      expect(mockCore.setFailed).not.toHaveBeenCalled()
+      expect(fs.readFileSync(testManifestPath, 'utf8')).toContain(
+        'myrepo/app:1.0.1'
+      )
+    }
+  )
+
+  it.each(['docker', 'calver'])(
+    'updates dated tags with %s versioning',
+    async (versioning) => {
+      const defaultInputs = (
+        mockCore.getInput as jest.Mock<(name: string) => string>
+      ).getMockImplementation()!
+      ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) =>
+        name === 'versioning'
+          ? versioning
+          : name === 'openai_api_key'
+            ? ''
+            : defaultInputs(name as string)
+      )
+      fs.writeFileSync(
+        testManifestPath,
+        'spec:\n  template:\n    spec:\n      containers:\n      - image: myrepo/app:2024-05-01'
+      )
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const octokit = mockGithub.getOctokit('fake-token') as any
+      octokit.rest.repos.listReleases.mockResolvedValue({
+        data: ['2024-06-12', '2024-05-01', '2024-04-03'].map((tag) => ({
+          tag_name: tag,
+          html_url: `http://example.com/${tag}`,
+          published_at: `${tag}T00:00:00Z`
+        }))
+      })
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (run as any)()
+
+      expect(mockCore.setFailed).not.toHaveBeenCalled()
+      expect(fs.readFileSync(testManifestPath, 'utf8')).toContain(
+        'myrepo/app:2024-06-12'
+      )
+    }
+  )
+
+  it('leaves non-semver registry tags to the versioning scheme', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) =>
+      name === 'source'
+        ? 'registry'
+        : name === 'repo'
+          ? 'quay.io/minio/minio'
+          : name === 'versioning'
+            ? 'calver'
+            : name === 'openai_api_key'
+              ? ''
+              : defaultInputs(name as string)
+    )
+    fs.writeFileSync(
+      testManifestPath,
+      'spec:\n  template:\n    spec:\n      containers:\n      - image: quay.io/minio/minio:RELEASE.2024-05-01T01-11-10Z'
+    )
+    const httpsGetSpy = jest.spyOn(https, 'get').mockImplementation(((
+      _url: string,
+      _options: unknown,
+      callback: (res: IncomingMessage) => void
+    ) => {
+      const res = new EventEmitter() as unknown as IncomingMessage
+      res.statusCode = 200
+      res.headers = {}
+      setTimeout(() => {
+        callback(res)
+        res.emit(
+          'data',
+          JSON.stringify({
+            tags: [
+              'RELEASE.2024-05-01T01-11-10Z',
+              'RELEASE.2024-06-13T22-53-53Z',
+              'latest'
+            ]
+          })
+        )
+        res.emit('end')
+      }, 0)
+      return { on: jest.fn().mockReturnThis() }
+    }) as unknown as typeof https.get)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+    httpsGetSpy.mockRestore()
+
+    expect(mockCore.setFailed).not.toHaveBeenCalled()
+    expect(fs.readFileSync(testManifestPath, 'utf8')).toContain(
+      'minio:RELEASE.2024-06-13T22-53-53Z'
+    )
+  })
+
+  it('runs without a GitHub token when no GitHub API is used', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    const inputs: Record<string, string> = {
+      source: 'registry',
+      repo: 'quay.io/org/app',
+      github_token: '',
+      openai_api_key: '',
+      provider: 'gitlab',
+      repository: 'group/gitops',
+      dry_run: 'true'
+    }
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) =>
+      (name as string) in inputs
+        ? inputs[name as string]
+        : defaultInputs(name as string)
+    )
+    fs.writeFileSync(
+      testManifestPath,
+      'spec:\n  template:\n    spec:\n      containers:\n      - image: quay.io/org/app:1.0.0'
+    )
+    const httpsGetSpy = jest.spyOn(https, 'get').mockImplementation(((
+      _url: string,
+      _options: unknown,
+      callback: (res: IncomingMessage) => void
+    ) => {
+      const res = new EventEmitter() as unknown as IncomingMessage
+      res.statusCode = 200
+      res.headers = {}
+      setTimeout(() => {
+        callback(res)
+        res.emit('data', JSON.stringify({ tags: ['1.0.0', '1.1.0'] }))
+        res.emit('end')
+      }, 0)
+      return { on: jest.fn().mockReturnThis() }
+    }) as unknown as typeof https.get)
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+    httpsGetSpy.mockRestore()
+
+    expect(mockCore.setFailed).not.toHaveBeenCalled()
+    expect(mockCore.setOutput).toHaveBeenCalledWith('new_version', '1.1.0')
+  })
+
+  it('requires a GitHub token for GitHub release sources', async () => {
+    const defaultInputs = (
+      mockCore.getInput as jest.Mock<(name: string) => string>
+    ).getMockImplementation()!
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) =>
+      name === 'github_token' ? '' : defaultInputs(name as string)
+    )
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    await (run as any)()
+
+    expect(mockCore.setFailed).toHaveBeenCalledWith(
+      'Input required and not supplied: github_token'
+    )
+    expect(mockCore.setOutput).toHaveBeenCalledWith('updated', false)
+    expect(mockCore.setOutput).toHaveBeenCalledWith('updates', '[]')
+  })
+
+  it('emits a matrix in list mode', async () => {
+    ;(mockCore.getInput as jest.Mock).mockImplementation((name: unknown) =>
+      name === 'mode'
+        ? 'list'
+        : name === 'config_file'
+          ? 'test-config-list.yaml'
+          : ''
+    )
+    fs.writeFileSync(
+      'test-config-list.yaml',
+      [
+        'applications:',
+        "  - repo: 'owner/app'",
+        '    targets:',
+        "      - file: 'app.yaml'",
+        "        path: 'image'",
+        '    ignoreVersions:',
+        "      - '1.2.0'",
+        "  - repo: 'owner/tool'",
+        "    type: 'manual'",
+        '    version: 1.0'
+      ].join('\n')
+    )
+
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (run as any)()
+    } finally {
+      fs.unlinkSync('test-config-list.yaml')
+    }
+
+    expect(mockCore.setFailed).not.toHaveBeenCalled()
+    const [[output, matrix]] = (mockCore.setOutput as jest.Mock).mock.calls
+    expect(output).toBe('matrix')
+    expect(JSON.parse(matrix as string).include).toEqual([
+      {
+        name: 'owner/app',
+        repo: 'owner/app',
+        type: 'kubernetes',
+        source: 'github',
+        tagNotes: 'none',
+        targets: '[{"file":"app.yaml","path":"image"}]',
+        ignoreVersions: '["1.2.0"]',
+        allowUndatedReleases: false,
+        versioning: 'semver',
+        versionLag: 0,
+        versionLagDepth: 'minor',
+        includePrereleases: false,
+        maxReleases: 'Infinity',
+        openaiMaxNoteLength: 15000
+      },
+      {
+        name: 'owner/tool',
+        repo: 'owner/tool',
+        type: 'manual',
+        source: 'github',
+        tagNotes: 'none',
+        version: '1',
+        allowUndatedReleases: false,
+        versioning: 'semver',
+        versionLag: 0,
+        versionLagDepth: 'minor',
+        includePrereleases: false,
+        maxReleases: 'Infinity',
+        openaiMaxNoteLength: 15000
+      }
+    ])
   })
 
   it('skips update if already at latest version', async () => {
@@ -271,6 +1357,7 @@ describe('End-to-End Version Update Action', () => {
     const content = fs.readFileSync(testManifestPath, 'utf8')
     expect(content).toContain('1.0.0')
     expect(mockExec.exec).not.toHaveBeenCalled()
+    expect(octokit.rest.repos.get).not.toHaveBeenCalled()
   })
 
   it('successfully updates a manual version and creates a PR', async () => {
@@ -51,6 +51,21 @@ describe('file-updater', () => {
     expect(updated).toBe('version: 1.1.0')
   })
 
+  it('skips nested list items when indexing a list', () => {
+    const content = `containers:
+  - name: app
+    ports:
+      - containerPort: 80
+  - name: sidecar
+    image: sidecar:1.0.0`
+    fs.writeFileSync(testFile, content)
+
+    setYamlValue(testFile, 'containers.1.image', '1.1.0', 'kubernetes', false)
+
+    const updated = fs.readFileSync(testFile, 'utf8')
+    expect(updated).toContain('image: sidecar:1.1.0')
+  })
+
   it('handles nested paths in kubernetes style', () => {
     const content = `
 spec:
@@ -111,6 +126,47 @@ spec:
     expect(updated).not.toContain('v2.3.0')
   })
 
+  it('rewrites the tag and digest of a pinned image together', () => {
+    fs.writeFileSync(testFile, 'image: nginx:1.25.3@sha256:old # pinned')
+
+    setYamlValue(testFile, 'image', '1.25.4', 'kubernetes', false, 'sha256:new')
+
+    const updated = fs.readFileSync(testFile, 'utf8')
+    expect(updated).toBe('image: nginx:1.25.4@sha256:new # pinned')
+  })
+
+  it('keeps registry hostnames with ports intact', () => {
+    fs.writeFileSync(testFile, 'image: registry.local:5000/team/app:1.2.3')
+
+    setYamlValue(testFile, 'image', '1.3.0', 'kubernetes', false)
+
+    const updated = fs.readFileSync(testFile, 'utf8')
+    expect(updated).toBe('image: registry.local:5000/team/app:1.3.0')
+  })
+
+  it('refuses to update a pinned image without a new digest', () => {
+    fs.writeFileSync(testFile, 'image: nginx:1.25.3@sha256:old')
+
+    expect(() =>
+      setYamlValue(testFile, 'image', '1.25.4', 'kubernetes', false)
+    ).toThrow('pinned to a digest')
+    expect(fs.readFileSync(testFile, 'utf8')).toBe(
+      'image: nginx:1.25.3@sha256:old'
+    )
+  })
+
+  it.each(['docker.io/library/redis', 'ghcr.io/o/a@sha256:abc'])(
+    'never replaces an image without a tag (%s)',
+    (image) => {
+      fs.writeFileSync(testFile, `image: ${image}`)
+
+      expect(() =>
+        setYamlValue(testFile, 'image', '7.2.0', 'kubernetes', false)
+      ).toThrow('has no image tag')
+      expect(fs.readFileSync(testFile, 'utf8')).toBe(`image: ${image}`)
+    }
+  )
+
   describe('removeApplicationFromConfig', () => {
     it('removes an application from a list', () => {
       const content = `
@@ -0,0 +1,91 @@
+import {
+  parseImageReference,
+  formatImageReference,
+  getImageName,
+  resolveRegistryRepository
+} from '../src/image-reference.js'
+
+describe('image-reference', () => {
+  describe('parseImageReference', () => {
+    it('parses a registry with a port, namespace, tag and digest', () => {
+      expect(
+        parseImageReference('registry.local:5000/team/app:1.2.3@sha256:abc')
+      ).toEqual({
+        registry: 'registry.local',
+        port: 5000,
+        namespace: 'team',
+        repository: 'app',
+        tag: '1.2.3',
+        digest: 'sha256:abc'
+      })
+    })
+
+    it('does not mistake a registry port for a tag', () => {
+      const ref = parseImageReference('localhost:5000/app')
+      expect(ref.registry).toBe('localhost')
+      expect(ref.port).toBe(5000)
+      expect(ref.tag).toBeUndefined()
+    })
+
+    it('leaves implicit docker.io parts undefined', () => {
+      expect(parseImageReference('redis:7.2')).toEqual({
+        registry: undefined,
+        port: undefined,
+        namespace: undefined,
+        repository: 'redis',
+        tag: '7.2',
+        digest: undefined
+      })
+      expect(parseImageReference('bitnami/redis').namespace).toBe('bitnami')
+    })
+
+    it('supports nested namespaces', () => {
+      const ref = parseImageReference('ghcr.io/org/team/app:v1')
+      expect(ref.namespace).toBe('org/team')
+      expect(ref.repository).toBe('app')
+    })
+  })
+
+  describe('formatImageReference', () => {
+    it.each([
+      'registry.local:5000/team/app:1.2.3',
+      'docker.io/library/redis',
+      'docker.io/library/redis:7.2@sha256:abc',
+      'redis',
+      'nginx:1.25.3-alpine',
+      'ghcr.io/org/team/app:v1'
+    ])('round-trips %s untouched', (image) => {
+      expect(formatImageReference(parseImageReference(image))).toBe(image)
+    })
+
+    it('replaces only the tag and digest', () => {
+      const ref = parseImageReference('registry.local:5000/team/app:1.2.3')
+      expect(formatImageReference({ ...ref, tag: '1.3.0' })).toBe(
+        'registry.local:5000/team/app:1.3.0'
+      )
+      expect(getImageName(ref)).toBe('registry.local:5000/team/app')
+    })
+  })
+
+  describe('resolveRegistryRepository', () => {
+    it('fills in the implicit docker hub registry and library namespace', () => {
+      expect(resolveRegistryRepository(parseImageReference('redis'))).toEqual({
+        host: 'registry-1.docker.io',
+        name: 'library/redis'
+      })
+      expect(
+        resolveRegistryRepository(
+          parseImageReference('docker.io/bitnami/redis')
+        )
+      ).toEqual({ host: 'registry-1.docker.io', name: 'bitnami/redis' })
+    })
+
+    it('keeps the registry port in the host', () => {
+      expect(
+        resolveRegistryRepository(
+          parseImageReference('registry.local:5000/team/app:1.2.3')
+        )
+      ).toEqual({ host: 'registry.local:5000', name: 'team/app' })
+    })
+  })
+})
@@ -0,0 +1,186 @@
+import { jest } from '@jest/globals'
+import { AppConfig } from '../src/types.js'
+
+const created: { service: string; args: unknown[] }[] = []
+const calls: { method: string; args: unknown[] }[] = []
+// Records every method called on the service and resolves it with 1
+const fakeService = (service: string) =>
+  jest.fn().mockImplementation((...args: unknown[]) => {
+    created.push({ service, args })
+    return new Proxy({ baseURL: args[0] } as Record<string, unknown>, {
+      get: (target, method: string) =>
+        method in target || method === 'then'
+          ? target[method]
+          : (...callArgs: unknown[]) => {
+              calls.push({ method, args: callArgs })
+              return Promise.resolve(1)
+            }
+    })
+  })
+jest.unstable_mockModule('../src/services.js', () => ({
+  GitHubService: fakeService('github'),
+  GitLabService: fakeService('gitlab'),
+  GiteaService: fakeService('gitea')
+}))
+
+const { createChangeRequestProvider } = await import('../src/providers.js')
+
+describe('createChangeRequestProvider', () => {
+  const env = { ...process.env }
+  const config = (provider?: AppConfig['provider']) =>
+    ({ githubToken: 'gh-token', provider }) as AppConfig
+
+  beforeEach(() => {
+    created.length = 0
+    calls.length = 0
+    delete process.env.GITHUB_REPOSITORY
+    delete process.env.GITHUB_SERVER_URL
+    delete process.env.CI_PROJECT_PATH
+    delete process.env.CI_SERVER_URL
+  })
+
+  afterAll(() => {
+    process.env = env
+  })
+
+  it('defaults to GitHub with the repository and token of the workflow', () => {
+    process.env.GITHUB_REPOSITORY = 'owner/gitops'
+    createChangeRequestProvider(config())
+    expect(created).toEqual([{ service: 'github', args: ['gh-token'] }])
+  })
+
+  it('uses the GitLab CI project and server for gitlab', () => {
+    process.env.CI_PROJECT_PATH = 'group/sub/gitops'
+    process.env.CI_SERVER_URL = 'https://gitlab.example.com'
+    process.env.GITHUB_REPOSITORY = 'owner/ignored'
+    createChangeRequestProvider(config({ type: 'gitlab', token: 'gl-token' }))
+    expect(created).toEqual([
+      { service: 'gitlab', args: ['https://gitlab.example.com', 'gl-token'] }
+    ])
+  })
+
+  it('prefers the configured repository and URL for gitea', () => {
+    process.env.GITHUB_SERVER_URL = 'https://gitea.example.com'
+    createChangeRequestProvider(
+      config({
+        type: 'gitea',
+        repository: 'owner/gitops',
+        baseURL: 'https://git.example.org',
+        token: 'gt-token'
+      })
+    )
+    expect(created).toEqual([
+      { service: 'gitea', args: ['https://git.example.org', 'gt-token'] }
+    ])
+  })
+
+  it('throws without a repository to open change requests in', () => {
+    expect(() =>
+      createChangeRequestProvider(config({ type: 'gitlab' }))
+    ).toThrow('No repository to open change requests in')
+  })
+
+  it('rejects repositories without an owner', () => {
+    expect(() =>
+      createChangeRequestProvider(
+        config({ type: 'github', repository: 'gitops' })
+      )
+    ).toThrow('Invalid repository "gitops", expected owner/repo')
+  })
+
+  it('rejects unknown providers', () => {
+    expect(() =>
+      createChangeRequestProvider(
+        config({
+          type: 'bitbucket' as 'github',
+          repository: 'owner/gitops'
+        })
+      )
+    ).toThrow('Unknown provider "bitbucket"')
+  })
+
+  it('passes the GitLab project to every merge request call', async () => {
+    const provider = createChangeRequestProvider(
+      config({
+        type: 'gitlab',
+        repository: 'group/sub/gitops',
+        baseURL: 'https://gitlab.example.com'
+      })
+    )
+    const labels = [{ name: 'deps', color: 'ededed' }]
+
+    await provider.getDefaultBranch()
+    await provider.createOrUpdateChangeRequest(
+      'title',
+      'head',
+      'main',
+      'body',
+      labels,
+      true
+    )
+    await provider.createOrUpdateIssue('title', 'body', labels)
+    await provider.closeOutdatedChangeRequests('bot-', 'bot-2')
+    await provider.enableAutoMerge(3, 'rebase', 'reason')
+
+    expect(calls).toEqual([
+      { method: 'getDefaultBranch', args: ['group/sub/gitops'] },
+      {
+        method: 'createOrUpdateMergeRequest',
+        args: [
+          'group/sub/gitops',
+          'title',
+          'head',
+          'main',
+          'body',
+          labels,
+          true
+        ]
+      },
+      {
+        method: 'createOrUpdateIssue',
+        args: ['group/sub/gitops', 'title', 'body', labels]
+      },
+      {
+        method: 'closeOutdatedMergeRequests',
+        args: ['group/sub/gitops', 'bot-', 'bot-2']
+      },
+      {
+        method: 'enableAutoMerge',
+        args: ['group/sub/gitops', 3, 'rebase', 'reason']
+      }
+    ])
+    expect(provider.changeRequestUrl(3)).toBe(
+      'https://gitlab.example.com/group/sub/gitops/-/merge_requests/3'
+    )
+    await expect(
+      provider.commitFiles('bot-1', 'main', 'message', [])
+    ).rejects.toThrow('commit_mode "api" is only supported')
+  })
+
+  it('splits the Gitea repository into owner and repo for every call', async () => {
+    const provider = createChangeRequestProvider(
+      config({
+        type: 'gitea',
+        repository: 'owner/gitops',
+        baseURL: 'https://gitea.example.com'
+      })
+    )
+
+    await provider.getDefaultBranch()
+    await provider.createOrUpdateChangeRequest('title', 'head', 'main', 'body')
+    await provider.createOrUpdateIssue('title', 'body')
+    await provider.closeOutdatedChangeRequests('bot-', 'bot-2')
+    await provider.enableAutoMerge(3)
+
+    expect(calls.map((c) => [c.method, ...c.args.slice(0, 3)])).toEqual([
+      ['getDefaultBranch', 'owner', 'gitops'],
+      ['createOrUpdatePullRequest', 'owner', 'gitops', 'title'],
+      ['createOrUpdateIssue', 'owner', 'gitops', 'title'],
+      ['closeOutdatedPullRequests', 'owner', 'gitops', 'bot-'],
+      ['enableAutoMerge', 'owner', 'gitops', 3]
+    ])
+    expect(provider.changeRequestUrl(3)).toBe(
+      'https://gitea.example.com/owner/gitops/pulls/3'
+    )
+  })
+})
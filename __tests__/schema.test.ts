@@ -0,0 +1,69 @@
+import fs from 'fs'
+import {
+  CONFIG_SCHEMA,
+  TARGETS_SCHEMA,
+  validateSchema,
+  formatSchemaPath
+} from '../src/schema.js'
+
+describe('schema', () => {
+  it('matches the published JSON Schema', () => {
+    expect(
+      JSON.parse(fs.readFileSync('versions-config.schema.json', 'utf8'))
+    ).toEqual(CONFIG_SCHEMA)
+  })
+
+  it('accepts a valid targets list', () => {
+    expect(
+      validateSchema([{ file: 'a.yaml', path: 'image' }], TARGETS_SCHEMA)
+    ).toEqual([])
+  })
+
+  it('reports type, enum and required errors with their paths', () => {
+    expect(
+      validateSchema(
+        {
+          applications: [
+            { type: 'docker', versionLag: '1', updatePolicy: { major: 'no' } }
+          ]
+        },
+        CONFIG_SCHEMA
+      )
+    ).toEqual([
+      { path: ['applications', 0], message: '"repo" is required' },
+      {
+        path: ['applications', 0, 'type'],
+        message: 'must be one of kubernetes, helm, manual'
+      },
+      {
+        path: ['applications', 0, 'versionLag'],
+        message: 'must be integer, got string'
+      },
+      {
+        path: ['applications', 0, 'updatePolicy', 'major'],
+        message: 'must be one of pr, draft, issue, automerge, skip'
+      }
+    ])
+  })
+
+  it('suggests the closest known property for typos', () => {
+    expect(
+      validateSchema(
+        { applications: [{ repo: 'a', relaseFilter: 'x' }] },
+        CONFIG_SCHEMA
+      )
+    ).toEqual([
+      {
+        path: ['applications', 0, 'relaseFilter'],
+        message:
+          'unknown property "relaseFilter" (did you mean "releaseFilter"?)'
+      }
+    ])
+  })
+
+  it('formats paths', () => {
+    expect(formatSchemaPath(['applications', 2, 'targets', 0, 'path'])).toBe(
+      'applications[2].targets[0].path'
+    )
+  })
+})
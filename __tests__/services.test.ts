@@ -1,22 +1,52 @@
 import { jest } from '@jest/globals'
 import https from 'https'
+import { createHash } from 'crypto'
 import { EventEmitter } from 'events'
 import { IncomingMessage } from 'http'
 
 const mockPullsList = jest.fn()
 const mockPullsUpdate = jest.fn()
 const mockIssuesCreateComment = jest.fn()
+const mockIssuesListForRepo = jest.fn()
+const mockIssuesUpdate = jest.fn()
+const mockPullsGet = jest.fn()
+const mockPullsMerge = jest.fn()
+const mockGraphql = jest.fn()
+const mockReposListTags = jest.fn()
+const mockReposGetCommit = jest.fn()
+const mockReposCompare = jest.fn()
+const mockGitGetRef = jest.fn()
+const mockGitGetTag = jest.fn()
+const mockGitUpdateRef = jest.fn()
+const mockGitCreateRef = jest.fn()
 
 jest.unstable_mockModule('@actions/github', () => ({
   getOctokit: () => ({
+    graphql: (...args: unknown[]) => mockGraphql(...args),
     rest: {
+      repos: {
+        listTags: (...args: unknown[]) => mockReposListTags(...args),
+        getCommit: (...args: unknown[]) => mockReposGetCommit(...args),
+        compareCommitsWithBasehead: (...args: unknown[]) =>
+          mockReposCompare(...args)
+      },
+      git: {
+        getRef: (...args: unknown[]) => mockGitGetRef(...args),
+        getTag: (...args: unknown[]) => mockGitGetTag(...args),
+        updateRef: (...args: unknown[]) => mockGitUpdateRef(...args),
+        createRef: (...args: unknown[]) => mockGitCreateRef(...args)
+      },
       pulls: {
         list: (...args: unknown[]) => mockPullsList(...args),
         update: (...args: unknown[]) => mockPullsUpdate(...args),
+        get: (...args: unknown[]) => mockPullsGet(...args),
+        merge: (...args: unknown[]) => mockPullsMerge(...args),
         create: jest.fn()
       },
       issues: {
         createComment: (...args: unknown[]) => mockIssuesCreateComment(...args),
+        listForRepo: (...args: unknown[]) => mockIssuesListForRepo(...args),
+        update: (...args: unknown[]) => mockIssuesUpdate(...args),
         getLabel: jest.fn(),
         createLabel: jest.fn(),
         addLabels: jest.fn()
@@ -27,11 +57,21 @@ jest.unstable_mockModule('@actions/github', () => ({
 
 let GitHubService: typeof import('../src/services.js').GitHubService
 let DockerHubService: typeof import('../src/services.js').DockerHubService
+let RegistryService: typeof import('../src/services.js').RegistryService
+let HelmRepoService: typeof import('../src/services.js').HelmRepoService
+let HelmOciService: typeof import('../src/services.js').HelmOciService
+let GitLabService: typeof import('../src/services.js').GitLabService
+let GiteaService: typeof import('../src/services.js').GiteaService
 
 beforeAll(async () => {
   const services = await import('../src/services.js')
   GitHubService = services.GitHubService
   DockerHubService = services.DockerHubService
+  RegistryService = services.RegistryService
+  HelmRepoService = services.HelmRepoService
+  HelmOciService = services.HelmOciService
+  GitLabService = services.GitLabService
+  GiteaService = services.GiteaService
 })
 
 describe('GitHubService', () => {
@@ -42,6 +82,12 @@ describe('GitHubService', () => {
     service = new GitHubService('fake-token')
   })
 
+  it('should require a token', () => {
+    expect(() => new GitHubService('')).toThrow(
+      'Input required and not supplied: github_token'
+    )
+  })
+
   it('closeOutdatedPullRequests should close PRs with matching prefix but different branch', async () => {
     mockPullsList.mockResolvedValue({
       data: [
@@ -90,6 +136,341 @@ describe('GitHubService', () => {
       })
     )
   })
+
+  it('enableAutoMerge should merge directly when auto-merge is unavailable and checks passed', async () => {
+    mockPullsGet.mockResolvedValue({
+      data: { node_id: 'PR_1', mergeable_state: 'clean' }
+    })
+    mockGraphql.mockRejectedValue(new Error('Auto merge is not allowed'))
+
+    const enabled = await service.enableAutoMerge(
+      'owner',
+      'repo',
+      1,
+      'merge',
+      'it is a patch'
+    )
+
+    expect(enabled).toBe(true)
+    expect(mockPullsMerge).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'repo',
+      pull_number: 1,
+      merge_method: 'merge'
+    })
+    expect(mockIssuesCreateComment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: '🤖 Merged (merge) because it is a patch.'
+      })
+    )
+  })
+
+  it('enableAutoMerge should leave the PR open when checks have not passed', async () => {
+    mockPullsGet.mockResolvedValue({
+      data: { node_id: 'PR_1', mergeable_state: 'blocked' }
+    })
+    mockGraphql.mockRejectedValue(new Error('Auto merge is not allowed'))
+
+    expect(await service.enableAutoMerge('owner', 'repo', 1)).toBe(false)
+    expect(mockPullsMerge).not.toHaveBeenCalled()
+    expect(mockIssuesCreateComment).not.toHaveBeenCalled()
+  })
+
+  it('enableAutoMerge should re-read the PR and merge when GitHub reports a clean status', async () => {
+    mockPullsGet
+      .mockResolvedValueOnce({
+        data: { node_id: 'PR_1', mergeable_state: 'unknown', auto_merge: null }
+      })
+      .mockResolvedValueOnce({
+        data: { node_id: 'PR_1', mergeable_state: 'unknown', auto_merge: null }
+      })
+    mockGraphql.mockRejectedValue(
+      new Error('Pull request Pull request is in clean status')
+    )
+
+    expect(await service.enableAutoMerge('owner', 'repo', 1)).toBe(true)
+    expect(mockPullsGet).toHaveBeenCalledTimes(2)
+    expect(mockPullsMerge).toHaveBeenCalled()
+  })
+
+  it('enableAutoMerge should not comment again when auto-merge is already enabled', async () => {
+    mockPullsGet.mockResolvedValue({
+      data: {
+        node_id: 'PR_1',
+        mergeable_state: 'blocked',
+        auto_merge: { merge_method: 'squash' }
+      }
+    })
+
+    expect(
+      await service.enableAutoMerge('owner', 'repo', 1, 'squash', 'reason')
+    ).toBe(true)
+    expect(mockGraphql).not.toHaveBeenCalled()
+    expect(mockIssuesCreateComment).not.toHaveBeenCalled()
+  })
+
+  it('createOrUpdateIssue should update an open issue with the same title', async () => {
+    mockIssuesListForRepo.mockResolvedValue({
+      data: [
+        { number: 4, title: 'chore: update app from 1.0.0 to 2.0.0' },
+        {
+          number: 5,
+          title: 'chore: update app from 1.0.0 to 2.0.0',
+          pull_request: {}
+        }
+      ]
+    })
+
+    const issueNumber = await service.createOrUpdateIssue(
+      'owner',
+      'repo',
+      'chore: update app from 1.0.0 to 2.0.0',
+      'body'
+    )
+
+    expect(issueNumber).toBe(4)
+    expect(mockIssuesUpdate).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'repo',
+      issue_number: 4,
+      body: 'body'
+    })
+  })
+
+  it('createOrUpdateIssue should look past the first page of issues', async () => {
+    mockIssuesListForRepo
+      .mockResolvedValueOnce({
+        data: Array.from({ length: 100 }, (_, i) => ({
+          number: 100 + i,
+          title: `issue ${i}`
+        }))
+      })
+      .mockResolvedValueOnce({
+        data: [{ number: 9, title: 'chore: update app from 1.0.0 to 2.0.0' }]
+      })
+
+    const issueNumber = await service.createOrUpdateIssue(
+      'owner',
+      'repo',
+      'chore: update app from 1.0.0 to 2.0.0',
+      'body'
+    )
+
+    expect(issueNumber).toBe(9)
+    expect(mockIssuesListForRepo).toHaveBeenLastCalledWith(
+      expect.objectContaining({ per_page: 100, page: 2 })
+    )
+  })
+
+  it('closeOutdatedIssues should close older tracking issues of the app', async () => {
+    mockIssuesListForRepo.mockResolvedValue({
+      data: [
+        { number: 1, title: 'chore: update app from 1.0.0 to 2.0.0' },
+        { number: 2, title: 'chore: update app from 1.0.0 to 3.0.0' },
+        { number: 3, title: 'chore: update app-web from 1.0.0 to 2.0.0' }
+      ]
+    })
+
+    await service.closeOutdatedIssues(
+      'owner',
+      'repo',
+      'chore: update app from ',
+      'chore: update app from 1.0.0 to 3.0.0'
+    )
+
+    expect(mockIssuesUpdate).toHaveBeenCalledTimes(1)
+    expect(mockIssuesUpdate).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'repo',
+      issue_number: 1,
+      state: 'closed'
+    })
+    expect(mockIssuesCreateComment).toHaveBeenCalledWith(
+      expect.objectContaining({ issue_number: 1 })
+    )
+  })
+})
+
+describe('GitHubService commits', () => {
+  let service: InstanceType<typeof GitHubService>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new GitHubService('fake-token')
+    mockGraphql.mockResolvedValue({
+      createCommitOnBranch: { commit: { oid: 'new-sha' } }
+    })
+  })
+
+  it('commitFiles should create the branch from base and commit through GraphQL', async () => {
+    mockGitGetRef.mockResolvedValue({ data: { object: { sha: 'base-sha' } } })
+    mockGitUpdateRef.mockRejectedValue(new Error('Reference does not exist'))
+
+    const sha = await service.commitFiles(
+      'owner',
+      'gitops',
+      'bot-update-app-2.0.0',
+      'develop',
+      'chore: update app',
+      [{ path: 'apps/app.yaml', contents: 'image: app:2.0.0\n' }]
+    )
+
+    expect(sha).toBe('new-sha')
+    expect(mockGitGetRef).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'gitops',
+      ref: 'heads/develop'
+    })
+    expect(mockGitCreateRef).toHaveBeenCalledWith({
+      owner: 'owner',
+      repo: 'gitops',
+      ref: 'refs/heads/bot-update-app-2.0.0',
+      sha: 'base-sha'
+    })
+    expect(mockGraphql).toHaveBeenCalledWith(
+      expect.stringContaining('createCommitOnBranch'),
+      {
+        input: {
+          branch: {
+            repositoryNameWithOwner: 'owner/gitops',
+            branchName: 'bot-update-app-2.0.0'
+          },
+          message: { headline: 'chore: update app' },
+          expectedHeadOid: 'base-sha',
+          fileChanges: {
+            additions: [
+              {
+                path: 'apps/app.yaml',
+                contents: Buffer.from('image: app:2.0.0\n').toString('base64')
+              }
+            ]
+          }
+        }
+      }
+    )
+  })
+
+  it('commitFiles should stack onto the parent commit without touching the branch', async () => {
+    await service.commitFiles(
+      'owner',
+      'gitops',
+      'bot-group-stack-1234abcd',
+      'main',
+      'chore: update other',
+      [{ path: 'other.yaml', contents: 'image: other:1.1.0\n' }],
+      'previous-sha'
+    )
+
+    expect(mockGitGetRef).not.toHaveBeenCalled()
+    expect(mockGitUpdateRef).not.toHaveBeenCalled()
+    expect(mockGraphql).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.objectContaining({
+        input: expect.objectContaining({ expectedHeadOid: 'previous-sha' })
+      })
+    )
+  })
+})
+
+describe('GitHubService tags', () => {
+  let service: InstanceType<typeof GitHubService>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    service = new GitHubService('fake-token')
+    mockReposListTags.mockResolvedValue({
+      data: [
+        { name: 'v1.9.0', commit: { sha: 'sha190' } },
+        { name: 'v1.10.0', commit: { sha: 'sha1100' } },
+        { name: 'nightly', commit: { sha: 'shanightly' } },
+        { name: 'v1.8.0', commit: { sha: 'sha180' } }
+      ]
+    })
+    mockReposGetCommit.mockImplementation((args: unknown) => ({
+      data: {
+        commit: {
+          committer: { date: `date-${(args as { ref: string }).ref}` }
+        }
+      }
+    }))
+  })
+
+  it('fetchAllTags should sort version tags without looking up each one', async () => {
+    const releases = await service.fetchAllTags('owner', 'repo', 'v1.8.0')
+
+    expect(releases).toEqual([
+      {
+        tag_name: 'v1.10.0',
+        html_url: 'https://github.com/owner/repo/tree/v1.10.0',
+        published_at: ''
+      },
+      {
+        tag_name: 'v1.9.0',
+        html_url: 'https://github.com/owner/repo/tree/v1.9.0',
+        published_at: ''
+      },
+      {
+        tag_name: 'v1.8.0',
+        html_url: 'https://github.com/owner/repo/tree/v1.8.0',
+        published_at: ''
+      }
+    ])
+    expect(mockReposGetCommit).not.toHaveBeenCalled()
+  })
+
+  it('enrichTags should date the given tags and read annotated tag messages', async () => {
+    mockGitGetRef.mockImplementation((args: unknown) => ({
+      data: {
+        object:
+          (args as { ref: string }).ref === 'tags/v1.10.0'
+            ? { type: 'tag', sha: 'tagobj' }
+            : { type: 'commit', sha: 'sha190' }
+      }
+    }))
+    mockGitGetTag.mockResolvedValue({ data: { message: 'Release 1.10.0' } })
+
+    const releases = await service.fetchAllTags('owner', 'repo', 'v1.8.0')
+    await service.enrichTags('owner', 'repo', releases.slice(0, 2), 'message')
+    // Already enriched releases are not looked up again
+    await service.enrichTags('owner', 'repo', releases.slice(0, 2), 'message')
+
+    expect(releases[0]).toEqual({
+      tag_name: 'v1.10.0',
+      html_url: 'https://github.com/owner/repo/tree/v1.10.0',
+      published_at: 'date-sha1100',
+      body: 'Release 1.10.0'
+    })
+    expect(releases[1].body).toBeUndefined()
+    expect(releases[2].published_at).toBe('')
+    expect(mockReposGetCommit).toHaveBeenCalledTimes(2)
+    expect(mockGitGetRef).toHaveBeenCalledTimes(2)
+  })
+
+  it('enrichTags should use the commit compare with the previous tag as notes', async () => {
+    mockReposCompare.mockResolvedValue({
+      data: {
+        html_url: 'https://github.com/owner/repo/compare/v1.9.0...v1.10.0',
+        commits: [
+          { sha: 'abcdef123456', commit: { message: 'fix: crash\n\nbody' } },
+          { sha: '123456abcdef', commit: { message: 'feat: new flag' } }
+        ]
+      }
+    })
+
+    const releases = await service.fetchAllTags('owner', 'repo', 'v1.9.0')
+    await service.enrichTags('owner', 'repo', [releases[0]], 'compare')
+
+    expect(mockReposCompare).toHaveBeenCalledTimes(1)
+    expect(mockReposCompare).toHaveBeenCalledWith(
+      expect.objectContaining({ basehead: 'v1.9.0...v1.10.0' })
+    )
+    expect(releases[0].html_url).toBe(
+      'https://github.com/owner/repo/compare/v1.9.0...v1.10.0'
+    )
+    expect(releases[0].body).toBe(
+      '- fix: crash (abcdef1)\n- feat: new flag (123456a)'
+    )
+  })
 })
 
 describe('DockerHubService', () => {
@@ -105,7 +486,7 @@ describe('DockerHubService', () => {
     jest.restoreAllMocks()
   })
 
-  it('fetchLatestTag should find higher version even if it is on the second page', async () => {
+  it('fetchAllTags should find a higher version even if it is on the second page', async () => {
     httpsGetSpy.mockImplementation(
       (
         url: string | URL,
@@ -151,7 +532,1003 @@ describe('DockerHubService', () => {
       }
     )
 
-    const result = await service.fetchLatestTag('busybox')
-    expect(result.tag_name).toBe('1.37.0')
+    const result = await service.fetchAllTags('busybox')
+    expect(result[0].tag_name).toBe('1.37.0')
+  })
+})
+
+type MockResponse = {
+  statusCode: number
+  headers?: Record<string, string>
+  body: string
+}
+const requests: { url: string; headers: Record<string, string> }[] = []
+
+const respond = (
+  responder: (url: string, headers: Record<string, string>) => MockResponse
+) => {
+  requests.length = 0
+  jest
+    .spyOn(https, 'get')
+    .mockImplementation(
+      (
+        url: string | URL,
+        options: { headers: Record<string, string> },
+        callback: (res: IncomingMessage) => void
+      ) => {
+        const urlStr = url.toString()
+        requests.push({ url: urlStr, headers: options.headers })
+        const { statusCode, headers, body } = responder(urlStr, options.headers)
+
+        const mockRes = new EventEmitter() as unknown as IncomingMessage
+        mockRes.statusCode = statusCode
+        mockRes.headers = headers || {}
+
+        setTimeout(() => {
+          callback(mockRes)
+          mockRes.emit('data', body)
+          mockRes.emit('end')
+        }, 0)
+
+        return { on: jest.fn().mockReturnThis() } as unknown as RequestInfo
+      }
+    )
+}
+
+describe('RegistryService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('fetchAllTags should answer a bearer challenge and follow pagination', async () => {
+    respond((url, headers) => {
+      if (url.startsWith('https://ghcr.io/token')) {
+        return { statusCode: 200, body: JSON.stringify({ token: 'abc' }) }
+      }
+      if (headers.Authorization !== 'Bearer abc') {
+        return {
+          statusCode: 401,
+          headers: {
+            'www-authenticate':
+              'Bearer realm="https://ghcr.io/token",service="ghcr.io",scope="repository:owner/app:pull"'
+          },
+          body: ''
+        }
+      }
+      if (url.includes('last=')) {
+        return {
+          statusCode: 200,
+          body: JSON.stringify({ tags: ['1.10.0', 'sha-1234abc'] })
+        }
+      }
+      return {
+        statusCode: 200,
+        headers: {
+          link: '</v2/owner/app/tags/list?last=1.9.0&n=100>; rel="next"'
+        },
+        body: JSON.stringify({ tags: ['1.2.0', '1.9.0', 'latest'] })
+      }
+    })
+
+    const service = new RegistryService()
+    const tags = await service.fetchAllTags('ghcr.io/owner/app', '1.2.0')
+
+    // Every tag is returned, the versioning scheme filters them later
+    expect(tags.map((t) => t.tag_name)).toEqual([
+      '1.2.0',
+      '1.9.0',
+      'latest',
+      '1.10.0',
+      'sha-1234abc'
+    ])
+    expect(tags[0].html_url).toBe('https://ghcr.io/owner/app')
+    expect(requests[1].url).toBe(
+      'https://ghcr.io/token?service=ghcr.io&scope=repository%3Aowner%2Fapp%3Apull'
+    )
+    expect(requests[3].url).toBe(
+      'https://ghcr.io/v2/owner/app/tags/list?last=1.9.0&n=100'
+    )
+    expect(requests[3].headers.Authorization).toBe('Bearer abc')
+  })
+
+  it('fetchAllTags should send basic credentials to the token realm', async () => {
+    respond((url, headers) => {
+      if (url.startsWith('https://auth.docker.io/token')) {
+        return { statusCode: 200, body: JSON.stringify({ token: 'xyz' }) }
+      }
+      if (headers.Authorization !== 'Bearer xyz') {
+        return {
+          statusCode: 401,
+          headers: {
+            'www-authenticate':
+              'Bearer realm="https://auth.docker.io/token",service="registry.docker.io"'
+          },
+          body: ''
+        }
+      }
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ tags: ['7.2.4', '7.4.0'] })
+      }
+    })
+
+    const service = new RegistryService({
+      host: 'docker.io',
+      username: 'user',
+      password: 'pass'
+    })
+    const tags = await service.fetchAllTags('redis')
+
+    expect(tags.map((t) => t.tag_name)).toEqual(['7.2.4', '7.4.0'])
+    expect(requests[0].url).toBe(
+      'https://registry-1.docker.io/v2/library/redis/tags/list?n=100'
+    )
+    expect(requests[1].url).toContain(
+      'scope=repository%3Alibrary%2Fredis%3Apull'
+    )
+    expect(requests[1].headers.Authorization).toBe(
+      `Basic ${Buffer.from('user:pass').toString('base64')}`
+    )
+  })
+
+  it('fetchAllTags should keep credentials and tokens to their own registry', async () => {
+    respond((url, headers) => {
+      const hub = /docker\.io/.test(url)
+      if (url.includes('/token')) {
+        return {
+          statusCode: 200,
+          body: JSON.stringify({ token: hub ? 'hub' : 'harbor' })
+        }
+      }
+      if (headers.Authorization !== `Bearer ${hub ? 'hub' : 'harbor'}`) {
+        const realm = hub
+          ? 'https://auth.docker.io/token'
+          : 'https://harbor.example.com/service/token'
+        return {
+          statusCode: 401,
+          headers: { 'www-authenticate': `Bearer realm="${realm}"` },
+          body: ''
+        }
+      }
+      return { statusCode: 200, body: JSON.stringify({ tags: ['1.0.0'] }) }
+    })
+
+    const service = new RegistryService({
+      host: 'harbor.example.com/org/app',
+      username: 'user',
+      password: 'pass'
+    })
+    await service.fetchAllTags('harbor.example.com/org/app')
+    await service.fetchAllTags('org/app')
+
+    const tokenRequests = requests.filter((r) => r.url.includes('/token'))
+    expect(tokenRequests.map((r) => r.url)).toEqual([
+      expect.stringMatching(/^https:\/\/harbor\.example\.com\/service\/token/),
+      expect.stringMatching(/^https:\/\/auth\.docker\.io\/token/)
+    ])
+    expect(tokenRequests[0].headers.Authorization).toMatch(/^Basic /)
+    expect(tokenRequests[1].headers.Authorization).toBeUndefined()
+    // The Harbor token is not replayed to Docker Hub for the same name
+    expect(
+      requests.find((r) => r.url.startsWith('https://registry-1.docker.io'))
+        ?.headers.Authorization
+    ).toBeUndefined()
+  })
+})
+
+describe('RegistryService digests', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('fetchDigest should request the manifest list and read the digest header', async () => {
+    respond(() => ({
+      statusCode: 200,
+      headers: { 'docker-content-digest': 'sha256:list' },
+      body: JSON.stringify({ manifests: [] })
+    }))
+
+    const service = new RegistryService()
+    const digest = await service.fetchDigest('nginx', '1.25.4')
+
+    expect(digest).toBe('sha256:list')
+    expect(requests[0].url).toBe(
+      'https://registry-1.docker.io/v2/library/nginx/manifests/1.25.4'
+    )
+    expect(requests[0].headers.Accept).toContain(
+      'application/vnd.oci.image.index.v1+json'
+    )
+  })
+
+  it('fetchDigest should hash the manifest when no digest header is sent', async () => {
+    const body = JSON.stringify({ manifests: [] })
+    respond(() => ({ statusCode: 200, body }))
+
+    const service = new RegistryService()
+    const digest = await service.fetchDigest('quay.io/org/app', '2.0.0')
+
+    expect(digest).toBe(
+      `sha256:${createHash('sha256').update(body).digest('hex')}`
+    )
+  })
+})
+
+describe('HelmRepoService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('fetchChartReleases should map index.yaml entries for the named chart', async () => {
+    respond(() => ({
+      statusCode: 200,
+      body: [
+        'apiVersion: v1',
+        'entries:',
+        '  redis:',
+        '    - version: 19.0.1',
+        '      appVersion: 7.2.4',
+        '      created: 2024-03-01T10:00:00.000Z',
+        '      description: Redis chart',
+        '      urls:',
+        '        - redis-19.0.1.tgz',
+        '    - version: 18.19.4',
+        '      appVersion: 7.2.4',
+        '      created: 2024-02-01T10:00:00.000Z',
+        '      urls:',
+        '        - https://example.com/charts/redis-18.19.4.tgz',
+        '  valkey:',
+        '    - version: 1.0.0'
+      ].join('\n')
+    }))
+
+    const service = new HelmRepoService()
+    const releases = await service.fetchChartReleases(
+      'https://charts.example.com/stable/',
+      'redis'
+    )
+
+    expect(requests[0].url).toBe('https://charts.example.com/stable/index.yaml')
+    expect(releases).toEqual([
+      {
+        tag_name: '19.0.1',
+        name: 'redis-19.0.1',
+        body: 'Redis chart\n\nApp version: 7.2.4',
+        html_url: 'https://charts.example.com/stable/redis-19.0.1.tgz',
+        published_at: '2024-03-01T10:00:00.000Z'
+      },
+      {
+        tag_name: '18.19.4',
+        name: 'redis-18.19.4',
+        body: 'App version: 7.2.4',
+        html_url: 'https://example.com/charts/redis-18.19.4.tgz',
+        published_at: '2024-02-01T10:00:00.000Z'
+      }
+    ])
+  })
+
+  it('fetchChartReleases should fail when the chart is missing', async () => {
+    respond(() => ({ statusCode: 200, body: 'entries: {}' }))
+
+    const service = new HelmRepoService()
+    await expect(
+      service.fetchChartReleases('https://charts.example.com', 'redis')
+    ).rejects.toThrow('Chart "redis" not found')
+  })
+})
+
+describe('HelmOciService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('fetchChartReleases should keep helm chart artifacts and read their annotations', async () => {
+    respond((url) => {
+      if (url.endsWith('/tags/list?n=100')) {
+        return {
+          statusCode: 200,
+          body: JSON.stringify({ tags: ['1.0.0', '1.1.0', '1.2.0', 'latest'] })
+        }
+      }
+      if (url.endsWith('/manifests/1.2.0')) {
+        return {
+          statusCode: 200,
+          body: JSON.stringify({
+            config: {
+              mediaType: 'application/vnd.cncf.helm.config.v1+json',
+              digest: 'sha256:chart'
+            },
+            annotations: {
+              'org.opencontainers.image.created': '2024-05-01T00:00:00Z'
+            }
+          })
+        }
+      }
+      if (url.endsWith('/manifests/1.1.0')) {
+        return {
+          statusCode: 200,
+          body: JSON.stringify({
+            config: {
+              mediaType: 'application/vnd.oci.image.config.v1+json',
+              digest: 'sha256:image'
+            }
+          })
+        }
+      }
+      if (url.endsWith('/blobs/sha256:chart')) {
+        return {
+          statusCode: 200,
+          body: JSON.stringify({
+            name: 'app',
+            version: '1.2.0',
+            appVersion: '3.4.5',
+            annotations: {
+              'artifacthub.io/changes':
+                '- kind: fixed\n  description: Fix ingress path\n- Bump app'
+            }
+          })
+        }
+      }
+      return { statusCode: 404, body: '' }
+    })
+
+    const service = new HelmOciService(new RegistryService())
+    const releases = await service.fetchChartReleases(
+      'oci://ghcr.io/owner/charts/app',
+      '1.0.0',
+      Infinity
+    )
+
+    expect(releases.map((r) => r.tag_name)).toEqual(['1.2.0', '1.0.0'])
+    expect(releases[0]).toEqual({
+      tag_name: '1.2.0',
+      name: '1.2.0 (app 3.4.5)',
+      body: 'App version: 3.4.5\n\n- [fixed] Fix ingress path\n- Bump app',
+      html_url: 'https://ghcr.io/owner/charts/app',
+      published_at: '2024-05-01T00:00:00Z'
+    })
+    expect(requests.some((r) => r.url.endsWith('/manifests/1.0.0'))).toBe(false)
+  })
+})
+
+const sent: { method: string; url: string; body?: Record<string, unknown> }[] =
+  []
+
+// Answers https.request calls, as used by the GitLab and Gitea write APIs
+const respondToRequests = (
+  responder: (method: string, url: string) => MockResponse
+) => {
+  sent.length = 0
+  jest.spyOn(https, 'request').mockImplementation(((
+    url: string,
+    options: { method: string },
+    callback: (res: IncomingMessage) => void
+  ) => {
+    const req = new EventEmitter() as EventEmitter & {
+      end: (payload?: string) => void
+    }
+    req.end = (payload?: string) => {
+      sent.push({
+        method: options.method,
+        url,
+        body: payload ? JSON.parse(payload) : undefined
+      })
+      const { statusCode, body } = responder(options.method, url)
+      const mockRes = new EventEmitter() as unknown as IncomingMessage
+      mockRes.statusCode = statusCode
+      mockRes.headers = {}
+      setTimeout(() => {
+        callback(mockRes)
+        mockRes.emit('data', body)
+        mockRes.emit('end')
+      }, 0)
+    }
+    return req
+  }) as unknown as typeof https.request)
+}
+
+describe('GitLabService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('fetchAllReleases should page until the current version is found', async () => {
+    respond((url) => {
+      if (url.includes('page=1&')) {
+        return {
+          statusCode: 200,
+          body: JSON.stringify([
+            {
+              tag_name: 'v2.1.0',
+              name: 'Release 2.1.0',
+              description: 'New features',
+              released_at: '2024-02-01T00:00:00Z',
+              created_at: '2024-01-31T00:00:00Z',
+              _links: {
+                self: 'https://gitlab.example.com/group/sub/app/-/releases/v2.1.0'
+              }
+            }
+          ])
+        }
+      }
+      return {
+        statusCode: 200,
+        body: JSON.stringify([
+          {
+            tag_name: 'v2.0.0',
+            description: null,
+            created_at: '2024-01-01T00:00:00Z'
+          }
+        ])
+      }
+    })
+
+    const service = new GitLabService('https://gitlab.example.com/', 'secret')
+    const releases = await service.fetchAllReleases(
+      'group/sub/app',
+      'v2.0.0',
+      Infinity
+    )
+
+    expect(requests).toHaveLength(2)
+    expect(requests[0].url).toBe(
+      'https://gitlab.example.com/api/v4/projects/group%2Fsub%2Fapp/releases?page=1&per_page=30'
+    )
+    expect(requests[0].headers['PRIVATE-TOKEN']).toBe('secret')
+    expect(releases).toEqual([
+      {
+        tag_name: 'v2.1.0',
+        name: 'Release 2.1.0',
+        body: 'New features',
+        html_url: 'https://gitlab.example.com/group/sub/app/-/releases/v2.1.0',
+        published_at: '2024-02-01T00:00:00Z'
+      },
+      {
+        tag_name: 'v2.0.0',
+        name: undefined,
+        body: undefined,
+        html_url: 'https://gitlab.example.com/group/sub/app/-/releases/v2.0.0',
+        published_at: '2024-01-01T00:00:00Z'
+      }
+    ])
+  })
+})
+
+describe('GitLabService merge requests', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('createOrUpdateMergeRequest should update the open merge request for the branch', async () => {
+    respondToRequests((method, url) => {
+      if (method === 'GET' && url.includes('/merge_requests?')) {
+        return { statusCode: 200, body: JSON.stringify([{ iid: 8 }]) }
+      }
+      if (method === 'GET' && url.includes('/labels/')) {
+        return { statusCode: 404, body: '{"message":"404 Label Not Found"}' }
+      }
+      return { statusCode: 200, body: '{}' }
+    })
+
+    const service = new GitLabService('https://gitlab.example.com', 'secret')
+    const iid = await service.createOrUpdateMergeRequest(
+      'group/gitops',
+      'chore: update app',
+      'bot-update-app-2.0.0',
+      'main',
+      'body',
+      [{ name: 'Worry-free', color: 'c2e0c6' }]
+    )
+
+    expect(iid).toBe(8)
+    expect(sent[0].url).toBe(
+      'https://gitlab.example.com/api/v4/projects/group%2Fgitops/merge_requests?state=opened&source_branch=bot-update-app-2.0.0&target_branch=main'
+    )
+    expect(sent).toContainEqual({
+      method: 'POST',
+      url: 'https://gitlab.example.com/api/v4/projects/group%2Fgitops/labels',
+      body: { name: 'Worry-free', color: '#c2e0c6' }
+    })
+    expect(sent.at(-1)).toEqual({
+      method: 'PUT',
+      url: 'https://gitlab.example.com/api/v4/projects/group%2Fgitops/merge_requests/8',
+      body: {
+        title: 'chore: update app',
+        description: 'body',
+        add_labels: 'Worry-free'
+      }
+    })
+  })
+
+  it('getDefaultBranch should read the project default branch', async () => {
+    respondToRequests(() => ({
+      statusCode: 200,
+      body: JSON.stringify({ default_branch: 'develop' })
+    }))
+
+    const service = new GitLabService('https://gitlab.example.com', 'secret')
+    expect(await service.getDefaultBranch('group/gitops')).toBe('develop')
+    expect(sent[0].url).toBe(
+      'https://gitlab.example.com/api/v4/projects/group%2Fgitops'
+    )
+  })
+
+  it('closeOutdatedMergeRequests should close merge requests from older branches', async () => {
+    respondToRequests((method) =>
+      method === 'GET'
+        ? {
+            statusCode: 200,
+            body: JSON.stringify([
+              { iid: 1, title: 'old', source_branch: 'bot-update-app-1.1.0' },
+              {
+                iid: 2,
+                title: 'current',
+                source_branch: 'bot-update-app-2.0.0'
+              },
+              { iid: 3, title: 'other', source_branch: 'feature' }
+            ])
+          }
+        : { statusCode: 200, body: '{}' }
+    )
+
+    const service = new GitLabService('https://gitlab.example.com', 'secret')
+    await service.closeOutdatedMergeRequests(
+      'group/gitops',
+      'bot-update-app-',
+      'bot-update-app-2.0.0'
+    )
+
+    expect(sent.slice(1).map((r) => `${r.method} ${r.url}`)).toEqual([
+      'POST https://gitlab.example.com/api/v4/projects/group%2Fgitops/merge_requests/1/notes',
+      'PUT https://gitlab.example.com/api/v4/projects/group%2Fgitops/merge_requests/1'
+    ])
+    expect(sent.at(-1)?.body).toEqual({ state_event: 'close' })
+  })
+
+  it('createOrUpdateMergeRequest should open a draft merge request', async () => {
+    respondToRequests((method) =>
+      method === 'GET'
+        ? { statusCode: 200, body: '[]' }
+        : { statusCode: 201, body: JSON.stringify({ iid: 9 }) }
+    )
+
+    const service = new GitLabService('https://gitlab.example.com', 'secret')
+    const iid = await service.createOrUpdateMergeRequest(
+      'group/gitops',
+      'chore: update app',
+      'bot-update-app-2.0.0',
+      'main',
+      'body',
+      [],
+      true
+    )
+
+    expect(iid).toBe(9)
+    expect(sent).toHaveLength(2)
+    expect(sent[1]).toEqual({
+      method: 'POST',
+      url: 'https://gitlab.example.com/api/v4/projects/group%2Fgitops/merge_requests',
+      body: {
+        source_branch: 'bot-update-app-2.0.0',
+        target_branch: 'main',
+        title: 'Draft: chore: update app',
+        description: 'body',
+        labels: ''
+      }
+    })
+  })
+
+  it('createOrUpdateIssue should update the open issue with the same title', async () => {
+    respondToRequests((method, url) =>
+      method === 'GET' && url.includes('/issues?')
+        ? {
+            statusCode: 200,
+            body: JSON.stringify([
+              { iid: 4, title: 'Update app to 2.0.0 (older)' },
+              { iid: 5, title: 'Update app to 2.0.0' }
+            ])
+          }
+        : { statusCode: 200, body: '{}' }
+    )
+
+    const service = new GitLabService('https://gitlab.example.com', 'secret')
+    const iid = await service.createOrUpdateIssue(
+      'group/gitops',
+      'Update app to 2.0.0',
+      'body',
+      [{ name: 'deps', color: 'ededed' }]
+    )
+
+    expect(iid).toBe(5)
+    expect(sent[0].url).toBe(
+      'https://gitlab.example.com/api/v4/projects/group%2Fgitops/issues?state=opened&in=title&search=Update%20app%20to%202.0.0&per_page=100'
+    )
+    expect(sent.map((r) => r.method)).toEqual(['GET', 'GET', 'PUT'])
+    expect(sent.at(-1)).toEqual({
+      method: 'PUT',
+      url: 'https://gitlab.example.com/api/v4/projects/group%2Fgitops/issues/5',
+      body: { description: 'body', add_labels: 'deps' }
+    })
+  })
+
+  it('enableAutoMerge should note a merge that happened right away', async () => {
+    respondToRequests((method) =>
+      method === 'PUT'
+        ? { statusCode: 200, body: JSON.stringify({ state: 'merged' }) }
+        : { statusCode: 201, body: '{}' }
+    )
+
+    const service = new GitLabService('https://gitlab.example.com', 'secret')
+    const enabled = await service.enableAutoMerge(
+      'group/gitops',
+      8,
+      'squash',
+      'the update is worry-free'
+    )
+
+    expect(enabled).toBe(true)
+    expect(sent).toEqual([
+      {
+        method: 'PUT',
+        url: 'https://gitlab.example.com/api/v4/projects/group%2Fgitops/merge_requests/8/merge',
+        body: { merge_when_pipeline_succeeds: true, squash: true }
+      },
+      {
+        method: 'POST',
+        url: 'https://gitlab.example.com/api/v4/projects/group%2Fgitops/merge_requests/8/notes',
+        body: { body: '🤖 Merged (squash) because the update is worry-free.' }
+      }
+    ])
+  })
+
+  it('enableAutoMerge should return false when GitLab refuses to merge', async () => {
+    respondToRequests(() => ({
+      statusCode: 405,
+      body: '{"message":"405 Method Not Allowed"}'
+    }))
+
+    const service = new GitLabService('https://gitlab.example.com', 'secret')
+    expect(
+      await service.enableAutoMerge('group/gitops', 8, 'merge', 'reason')
+    ).toBe(false)
+    expect(sent).toHaveLength(1)
+    expect(sent[0].body).toEqual({
+      merge_when_pipeline_succeeds: true,
+      squash: false
+    })
+  })
+
+  it('closeOutdatedIssues should close older issues found by title', async () => {
+    respondToRequests((method) =>
+      method === 'GET'
+        ? {
+            statusCode: 200,
+            body: JSON.stringify([
+              { iid: 1, title: 'chore: update app from 1.0.0 to 2.0.0' },
+              { iid: 2, title: 'chore: update app from 1.0.0 to 3.0.0' },
+              { iid: 3, title: 'fix: chore: update app from 1.0.0' }
+            ])
+          }
+        : { statusCode: 200, body: '{}' }
+    )
+
+    const service = new GitLabService('https://gitlab.example.com', 'secret')
+    await service.closeOutdatedIssues(
+      'group/gitops',
+      'chore: update app from ',
+      'chore: update app from 1.0.0 to 3.0.0'
+    )
+
+    expect(sent[0].url).toBe(
+      'https://gitlab.example.com/api/v4/projects/group%2Fgitops/issues?state=opened&in=title&search=chore%3A%20update%20app%20from%20&per_page=100'
+    )
+    expect(sent.slice(1).map((r) => `${r.method} ${r.url}`)).toEqual([
+      'POST https://gitlab.example.com/api/v4/projects/group%2Fgitops/issues/1/notes',
+      'PUT https://gitlab.example.com/api/v4/projects/group%2Fgitops/issues/1'
+    ])
+    expect(sent.at(-1)?.body).toEqual({ state_event: 'close' })
+  })
+})
+
+describe('GiteaService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('createOrUpdatePullRequest should open a pull request and attach labels by id', async () => {
+    respondToRequests((method, url) => {
+      if (method === 'GET' && url.includes('/pulls')) {
+        return { statusCode: 200, body: '[]' }
+      }
+      if (method === 'POST' && url.endsWith('/pulls')) {
+        return { statusCode: 201, body: JSON.stringify({ number: 12 }) }
+      }
+      if (method === 'GET' && url.includes('/labels')) {
+        return {
+          statusCode: 200,
+          body: JSON.stringify([{ id: 3, name: 'Risk: Low' }])
+        }
+      }
+      if (method === 'POST' && url.endsWith('/repos/owner/gitops/labels')) {
+        return {
+          statusCode: 201,
+          body: JSON.stringify({ id: 4, name: 'deps' })
+        }
+      }
+      return { statusCode: 200, body: '' }
+    })
+
+    const service = new GiteaService('https://gitea.example.com', 'secret')
+    const number = await service.createOrUpdatePullRequest(
+      'owner',
+      'gitops',
+      'chore: update app',
+      'bot-update-app-2.0.0',
+      'main',
+      'body',
+      [
+        { name: 'Risk: Low', color: 'fbca04' },
+        { name: 'deps', color: 'ededed' }
+      ],
+      true
+    )
+
+    expect(number).toBe(12)
+    expect(sent).toContainEqual({
+      method: 'POST',
+      url: 'https://gitea.example.com/api/v1/repos/owner/gitops/pulls',
+      body: {
+        head: 'bot-update-app-2.0.0',
+        base: 'main',
+        title: 'WIP: chore: update app',
+        body: 'body'
+      }
+    })
+    expect(sent).toContainEqual({
+      method: 'POST',
+      url: 'https://gitea.example.com/api/v1/repos/owner/gitops/labels',
+      body: { name: 'deps', color: '#ededed' }
+    })
+    expect(sent.at(-1)).toEqual({
+      method: 'POST',
+      url: 'https://gitea.example.com/api/v1/repos/owner/gitops/issues/12/labels',
+      body: { labels: [3, 4] }
+    })
+  })
+
+  it('createOrUpdatePullRequest should update the open pull request for the branch', async () => {
+    respondToRequests((method) =>
+      method === 'GET'
+        ? {
+            statusCode: 200,
+            body: JSON.stringify([
+              {
+                number: 6,
+                head: { ref: 'bot-update-app-2.0.0' },
+                base: { ref: 'release' }
+              },
+              {
+                number: 7,
+                head: { ref: 'bot-update-app-2.0.0' },
+                base: { ref: 'main' }
+              }
+            ])
+          }
+        : { statusCode: 200, body: '{}' }
+    )
+
+    const service = new GiteaService('https://gitea.example.com', 'secret')
+    const number = await service.createOrUpdatePullRequest(
+      'owner',
+      'gitops',
+      'chore: update app',
+      'bot-update-app-2.0.0',
+      'main',
+      'body'
+    )
+
+    expect(number).toBe(7)
+    expect(sent).toHaveLength(2)
+    expect(sent[1]).toEqual({
+      method: 'PATCH',
+      url: 'https://gitea.example.com/api/v1/repos/owner/gitops/pulls/7',
+      body: { title: 'chore: update app', body: 'body' }
+    })
+  })
+
+  it('createOrUpdateIssue should open an issue when none has the same title', async () => {
+    respondToRequests((method, url) => {
+      if (method === 'GET' && url.includes('/issues?')) {
+        return {
+          statusCode: 200,
+          body: JSON.stringify([{ number: 2, title: 'Update app to 1.0.0' }])
+        }
+      }
+      if (method === 'POST' && url.endsWith('/issues')) {
+        return { statusCode: 201, body: JSON.stringify({ number: 3 }) }
+      }
+      if (method === 'GET' && url.includes('/labels')) {
+        return {
+          statusCode: 200,
+          body: JSON.stringify([{ id: 5, name: 'deps' }])
+        }
+      }
+      return { statusCode: 200, body: '' }
+    })
+
+    const service = new GiteaService('https://gitea.example.com', 'secret')
+    const number = await service.createOrUpdateIssue(
+      'owner',
+      'gitops',
+      'Update app to 2.0.0',
+      'body',
+      [{ name: 'deps', color: 'ededed' }]
+    )
+
+    expect(number).toBe(3)
+    expect(sent[1]).toEqual({
+      method: 'POST',
+      url: 'https://gitea.example.com/api/v1/repos/owner/gitops/issues',
+      body: { title: 'Update app to 2.0.0', body: 'body' }
+    })
+    expect(sent.at(-1)).toEqual({
+      method: 'POST',
+      url: 'https://gitea.example.com/api/v1/repos/owner/gitops/issues/3/labels',
+      body: { labels: [5] }
+    })
+  })
+
+  it('closeOutdatedPullRequests should comment on and close older branches', async () => {
+    respondToRequests((method) =>
+      method === 'GET'
+        ? {
+            statusCode: 200,
+            body: JSON.stringify([
+              {
+                number: 1,
+                title: 'old',
+                head: { ref: 'bot-update-app-1.1.0' }
+              },
+              {
+                number: 2,
+                title: 'current',
+                head: { ref: 'bot-update-app-2.0.0' }
+              },
+              { number: 3, title: 'other', head: { ref: 'feature' } }
+            ])
+          }
+        : { statusCode: 200, body: '{}' }
+    )
+
+    const service = new GiteaService('https://gitea.example.com', 'secret')
+    await service.closeOutdatedPullRequests(
+      'owner',
+      'gitops',
+      'bot-update-app-',
+      'bot-update-app-2.0.0'
+    )
+
+    expect(sent.slice(1)).toEqual([
+      {
+        method: 'POST',
+        url: 'https://gitea.example.com/api/v1/repos/owner/gitops/issues/1/comments',
+        body: {
+          body: 'Closing this PR because a newer version update is available: bot-update-app-2.0.0'
+        }
+      },
+      {
+        method: 'PATCH',
+        url: 'https://gitea.example.com/api/v1/repos/owner/gitops/pulls/1',
+        body: { state: 'closed' }
+      }
+    ])
+  })
+
+  it('closeOutdatedIssues should close older issues found by title', async () => {
+    respondToRequests((method) =>
+      method === 'GET'
+        ? {
+            statusCode: 200,
+            body: JSON.stringify([
+              { number: 1, title: 'chore: update app from 1.0.0 to 2.0.0' },
+              { number: 2, title: 'chore: update app from 1.0.0 to 3.0.0' }
+            ])
+          }
+        : { statusCode: 200, body: '{}' }
+    )
+
+    const service = new GiteaService('https://gitea.example.com', 'secret')
+    await service.closeOutdatedIssues(
+      'owner',
+      'gitops',
+      'chore: update app from ',
+      'chore: update app from 1.0.0 to 3.0.0'
+    )
+
+    expect(sent.slice(1).map((r) => `${r.method} ${r.url}`)).toEqual([
+      'POST https://gitea.example.com/api/v1/repos/owner/gitops/issues/1/comments',
+      'PATCH https://gitea.example.com/api/v1/repos/owner/gitops/issues/1'
+    ])
+    expect(sent.at(-1)?.body).toEqual({ state: 'closed' })
+  })
+
+  it('enableAutoMerge should schedule the merge and explain why', async () => {
+    respondToRequests(() => ({ statusCode: 200, body: '' }))
+
+    const service = new GiteaService('https://gitea.example.com', 'secret')
+    const enabled = await service.enableAutoMerge(
+      'owner',
+      'gitops',
+      7,
+      'rebase',
+      'the update is worry-free'
+    )
+
+    expect(enabled).toBe(true)
+    expect(sent).toEqual([
+      {
+        method: 'POST',
+        url: 'https://gitea.example.com/api/v1/repos/owner/gitops/pulls/7/merge',
+        body: { Do: 'rebase', merge_when_checks_succeed: true }
+      },
+      {
+        method: 'POST',
+        url: 'https://gitea.example.com/api/v1/repos/owner/gitops/issues/7/comments',
+        body: {
+          body: '🤖 Auto-merge enabled (rebase) because the update is worry-free.'
+        }
+      }
+    ])
+  })
+
+  it('enableAutoMerge should return false when Gitea refuses to merge', async () => {
+    respondToRequests(() => ({ statusCode: 405, body: 'not allowed' }))
+
+    const service = new GiteaService('https://gitea.example.com', 'secret')
+    expect(await service.enableAutoMerge('owner', 'gitops', 7)).toBe(false)
+    expect(sent).toHaveLength(1)
+  })
+
+  it('fetchAllReleases should skip drafts and stop at the current version', async () => {
+    respond(() => ({
+      statusCode: 200,
+      body: JSON.stringify([
+        {
+          tag_name: 'v1.3.0',
+          body: 'Draft notes',
+          html_url: 'https://codeberg.org/owner/app/releases/tag/v1.3.0',
+          draft: true,
+          created_at: '2024-03-01T00:00:00Z'
+        },
+        {
+          tag_name: 'v1.2.0',
+          name: 'v1.2.0',
+          body: 'Bug fixes',
+          html_url: 'https://codeberg.org/owner/app/releases/tag/v1.2.0',
+          published_at: '2024-02-01T00:00:00Z',
+          created_at: '2024-02-01T00:00:00Z'
+        },
+        {
+          tag_name: 'v1.1.0',
+          html_url: 'https://codeberg.org/owner/app/releases/tag/v1.1.0',
+          created_at: '2024-01-01T00:00:00Z'
+        }
+      ])
+    }))
+
+    const service = new GiteaService('https://codeberg.org', 'secret')
+    const releases = await service.fetchAllReleases(
+      'owner',
+      'app',
+      '1.1.0',
+      Infinity
+    )
+
+    expect(requests).toHaveLength(1)
+    expect(requests[0].url).toBe(
+      'https://codeberg.org/api/v1/repos/owner/app/releases?page=1&limit=30'
+    )
+    expect(requests[0].headers.Authorization).toBe('token secret')
+    expect(releases.map((r) => r.tag_name)).toEqual(['v1.2.0', 'v1.1.0'])
+    expect(releases[0].body).toBe('Bug fixes')
   })
 })
@@ -0,0 +1,136 @@
+import * as core from '@actions/core'
+import fs from 'fs'
+import { ApplicationResult } from '../src/types.js'
+import { addRunSummary, writeRunSummary } from '../src/summary.js'
+
+describe('summary', () => {
+  const updated: ApplicationResult = {
+    name: 'argo-cd',
+    status: 'updated',
+    currentVersion: '2.9.0',
+    newVersion: '2.10.1',
+    bumpType: 'minor',
+    risk: 'Medium',
+    prNumber: 42,
+    prUrl: 'https://github.com/owner/gitops/pull/42',
+    branch: 'bot-update-argo-cd-2.10.1',
+    changes: [
+      {
+        file: 'apps/argocd.yaml',
+        path: 'spec.source.targetRevision',
+        from: '2.9.0',
+        to: '2.10.1'
+      }
+    ],
+    aiAssessment: {
+      overallRisk: 'Medium',
+      overallWorryFree: false,
+      releases: [
+        {
+          tag_name: 'v2.10.0',
+          html_url: 'https://example.com/v2.10.0',
+          published_at: '2024-01-01T00:00:00Z',
+          summary: 'Drops support for <1.25 clusters',
+          worryFree: false,
+          risk: 'Medium'
+        }
+      ]
+    },
+    heldBack: [
+      {
+        tag_name: 'v2.11.0',
+        html_url: 'https://example.com/v2.11.0',
+        reason: 'released less than 3d ago'
+      }
+    ]
+  }
+
+  beforeEach(() => {
+    core.summary.emptyBuffer()
+  })
+
+  it('renders an overview and the details of each update', () => {
+    addRunSummary(
+      [
+        updated,
+        { name: 'traefik', status: 'up-to-date', currentVersion: '3.0.0' }
+      ],
+      false
+    )
+    const html = core.summary.stringify()
+
+    expect(html).toContain('<h2>Version updates</h2>')
+    expect(html).toContain('<td>argo-cd</td><td>🚀 updated</td><td>2.9.0</td>')
+    expect(html).toContain(
+      '<td>traefik</td><td>✅ up-to-date</td><td>3.0.0</td><td>-</td>'
+    )
+    expect(html).toContain('<h3>argo-cd</h3>')
+    expect(html).not.toContain('<h3>traefik</h3>')
+    expect(html).toContain(
+      '<a href="https://github.com/owner/gitops/pull/42">#42</a>'
+    )
+    expect(html).toContain(
+      '<td><code>apps/argocd.yaml</code></td><td><code>spec.source.targetRevision</code></td><td>2.9.0 → 2.10.1</td>'
+    )
+    expect(html).toContain('Drops support for &lt;1.25 clusters')
+    expect(html).toContain(
+      '<li><a href="https://example.com/v2.11.0">v2.11.0</a>: released less than 3d ago</li>'
+    )
+  })
+
+  it('shows risks like the pull request body and tolerates missing AI fields', () => {
+    addRunSummary(
+      [
+        {
+          ...updated,
+          aiAssessment: {
+            overallRisk: 'Medium',
+            overallWorryFree: false,
+            releases: [
+              {
+                ...updated.aiAssessment!.releases[0],
+                summary: undefined as unknown as string,
+                risk: undefined as unknown as 'Low'
+              }
+            ]
+          }
+        }
+      ],
+      false
+    )
+    const html = core.summary.stringify()
+
+    expect(html).toContain('<td>Medium 🟡</td>')
+    expect(html).toContain(
+      '<td><a href="https://example.com/v2.10.0">v2.10.0</a></td><td>-</td><td>⚠️</td>'
+    )
+    expect(html).not.toContain('undefined')
+  })
+
+  it('names the branch instead of the pull request in dry run', () => {
+    addRunSummary([{ ...updated, prNumber: undefined, prUrl: undefined }], true)
+    const html = core.summary.stringify()
+
+    expect(html).toContain('<h2>Version updates (dry run)</h2>')
+    expect(html).toContain(
+      'a pull request would be opened from <code>bot-update-argo-cd-2.10.1</code>'
+    )
+  })
+
+  it('writes to the job summary file only when there is one', async () => {
+    const file = 'test-step-summary.md'
+    fs.writeFileSync(file, '')
+    try {
+      delete process.env.GITHUB_STEP_SUMMARY
+      await writeRunSummary([updated], false)
+      expect(core.summary.isEmptyBuffer()).toBe(true)
+
+      process.env.GITHUB_STEP_SUMMARY = file
+      await writeRunSummary([updated], false)
+      expect(fs.readFileSync(file, 'utf8')).toContain('<h3>argo-cd</h3>')
+    } finally {
+      delete process.env.GITHUB_STEP_SUMMARY
+      fs.unlinkSync(file)
+    }
+  })
+})
@@ -1,8 +1,14 @@
 import {
   generatePrBody,
+  generateGroupPrBody,
   compareVersions,
   isPrerelease,
-  applyVersionLag
+  applyVersionLag,
+  getTagFlavor,
+  filterByFlavor,
+  parseDuration,
+  getBumpType,
+  isRiskAtOrBelow
 } from '../src/utils.js'
 
 describe('utils', () => {
@@ -111,6 +117,76 @@ describe('utils', () => {
     })
   })
 
+  describe('tag flavors', () => {
+    it('should detect the image variant suffix of a tag', () => {
+      expect(getTagFlavor('1.25.3-alpine')).toBe('-alpine')
+      expect(getTagFlavor('v12.1-debian-slim')).toBe('-debian-slim')
+      expect(getTagFlavor('1.25.3')).toBe('')
+      expect(getTagFlavor('v1.2.0-rc.1')).toBe('')
+      expect(getTagFlavor('v0.108.0-b.79')).toBe('')
+    })
+
+    it('should not take the rest of a dated tag for a flavor', () => {
+      expect(getTagFlavor('2024-05-01')).toBe('')
+      expect(getTagFlavor('20240501-1')).toBe('')
+    })
+
+    it('should not treat the flavor as a prerelease', () => {
+      expect(isPrerelease('1.25.3-alpine', '-alpine')).toBe(false)
+      expect(isPrerelease('1.26.0-rc.1-alpine', '-alpine')).toBe(true)
+      expect(isPrerelease('1.25.3-alpine')).toBe(true)
+    })
+
+    it('should only keep tags with the same flavor', () => {
+      const releases = [
+        { tag_name: '1.26.0', html_url: '', published_at: '' },
+        { tag_name: '1.26.0-alpine', html_url: '', published_at: '' },
+        { tag_name: '1.26.0-alpine-slim', html_url: '', published_at: '' },
+        { tag_name: '1.26.0-alpine3.19', html_url: '', published_at: '' },
+        { tag_name: '1.25.3-alpine', html_url: '', published_at: '' }
+      ]
+      expect(
+        filterByFlavor(releases, '-alpine').map((r) => r.tag_name)
+      ).toEqual(['1.26.0-alpine', '1.25.3-alpine'])
+      expect(filterByFlavor(releases, '').map((r) => r.tag_name)).toEqual([
+        '1.26.0'
+      ])
+    })
+  })
+
+  describe('getBumpType', () => {
+    it('classifies by the first changed component', () => {
+      expect(getBumpType('v1.2.3', 'v2.0.0')).toBe('major')
+      expect(getBumpType('1.2.3', '1.3.0')).toBe('minor')
+      expect(getBumpType('1.2.3', '1.2.4')).toBe('patch')
+      expect(getBumpType('1.2', '1.2.1')).toBe('patch')
+      expect(getBumpType('1.2.3', '1.2.3')).toBe('patch')
+    })
+  })
+
+  describe('isRiskAtOrBelow', () => {
+    it('compares risk levels against a threshold', () => {
+      expect(isRiskAtOrBelow('None', 'Low')).toBe(true)
+      expect(isRiskAtOrBelow('Low', 'Low')).toBe(true)
+      expect(isRiskAtOrBelow('Medium', 'Low')).toBe(false)
+      expect(isRiskAtOrBelow('Unknown', 'High')).toBe(false)
+    })
+  })
+
+  describe('parseDuration', () => {
+    it('parses units and defaults to days', () => {
+      expect(parseDuration('30m')).toBe(30 * 60 * 1000)
+      expect(parseDuration('12h')).toBe(12 * 60 * 60 * 1000)
+      expect(parseDuration('3d')).toBe(3 * 24 * 60 * 60 * 1000)
+      expect(parseDuration('2')).toBe(2 * 24 * 60 * 60 * 1000)
+      expect(parseDuration('1w')).toBe(7 * 24 * 60 * 60 * 1000)
+    })
+
+    it('rejects unknown formats', () => {
+      expect(() => parseDuration('three days')).toThrow('Invalid duration')
+    })
+  })
+
   describe('generatePrBody', () => {
     const displayName = 'my-app'
     const aiAssessment = {
@@ -155,6 +231,7 @@ describe('utils', () => {
         aiAssessment,
         relevantReleases,
         logBuffer,
+        [],
         1000
       )
       expect(body).toContain('AI Risk Assessment')
@@ -165,6 +242,20 @@ describe('utils', () => {
       expect(body).toContain('Full Execution Logs')
     })
 
+    it('lists held back versions', () => {
+      const body = generatePrBody(displayName, null, relevantReleases, '', [
+        {
+          tag_name: 'v3.0.0',
+          html_url: 'http://example.com/v3',
+          reason: 'outside the allowed range `<3`'
+        }
+      ])
+      expect(body).toContain('Held Back Versions')
+      expect(body).toContain(
+        '[v3.0.0](http://example.com/v3)**: outside the allowed range `<3`'
+      )
+    })
+
     it('removes logs if body is too long', () => {
       // Set limit small enough that it has to remove logs
       const fullBody = generatePrBody(
@@ -172,6 +263,7 @@ describe('utils', () => {
         aiAssessment,
         relevantReleases,
         logBuffer,
+        [],
         1000
       )
       const smallLimit = fullBody.length - 20
@@ -180,6 +272,7 @@ describe('utils', () => {
         aiAssessment,
         relevantReleases,
         logBuffer,
+        [],
         smallLimit
       )
 
@@ -202,6 +295,7 @@ describe('utils', () => {
         aiAssessment,
         relevantReleases,
         logBuffer,
+        [],
         385
       )
 
@@ -223,10 +317,52 @@ describe('utils', () => {
         aiAssessment,
         relevantReleases,
         logBuffer,
+        [],
         50
       )
       expect(body.length).toBeLessThanOrEqual(50)
       expect(body).toContain('...(body truncated)')
     })
   })
+  describe('generateGroupPrBody', () => {
+    const update = (name: string, detail: string) => ({
+      name,
+      title: `chore: update ${name}`,
+      detail,
+      aiAssessment: null,
+      releases: [
+        {
+          tag_name: 'v2.0.0',
+          html_url: `http://example.com/${name}`,
+          published_at: '2024-01-01'
+        }
+      ],
+      heldBack: [],
+      logs: 'x'.repeat(500),
+      labels: [],
+      draft: false
+    })
+
+    it('lists every application and includes their sections', () => {
+      const body = generateGroupPrBody('monitoring', [
+        update('loki', '1.0.0 → 2.0.0'),
+        update('tempo', '1.1.0 → 2.0.0')
+      ])
+      expect(body).toContain('Grouped version update for **monitoring**')
+      expect(body).toContain('- **loki**: 1.0.0 → 2.0.0')
+      expect(body).toContain('Automated version update for **loki**')
+      expect(body).toContain('Automated version update for **tempo**')
+    })
+
+    it('shares the size budget between sections', () => {
+      const body = generateGroupPrBody(
+        'monitoring',
+        [update('loki', '1.0.0 → 2.0.0'), update('tempo', '1.1.0 → 2.0.0')],
+        1000
+      )
+      expect(body.length).toBeLessThanOrEqual(1000)
+      expect(body).not.toContain('Full Execution Logs')
+      expect(body).toContain('http://example.com/tempo')
+    })
+  })
 })
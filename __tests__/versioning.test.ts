@@ -0,0 +1,182 @@
+import {
+  getVersionScheme,
+  satisfiesRange,
+  matchesVersionPattern
+} from '../src/versioning.js'
+import { applyVersionLag } from '../src/utils.js'
+
+const sortDesc = (versioning: string, tags: string[]) => {
+  const scheme = getVersionScheme(versioning)
+  return [...tags].sort((a, b) => scheme.compare(b, a))
+}
+
+describe('versioning', () => {
+  it('defaults to semver', () => {
+    const scheme = getVersionScheme()
+    expect(scheme.name).toBe('semver')
+    expect(scheme.compare('v1.10.0', 'v1.9.0')).toBe(1)
+    expect(scheme.getParts('v1.2.3-rc.1')).toEqual([1, 2, 3])
+  })
+
+  it('only accepts major.minor versions with semver', () => {
+    const scheme = getVersionScheme()
+    expect(scheme.isValid('v1.2.3')).toBe(true)
+    expect(scheme.isValid('app-v1.2.3-rc.1')).toBe(true)
+    expect(scheme.isValid('1.25-alpine')).toBe(true)
+    expect(scheme.isValid('latest')).toBe(false)
+    expect(scheme.isValid('sha-1234abc')).toBe(false)
+  })
+
+  it('rejects unknown schemes', () => {
+    expect(() => getVersionScheme('nope')).toThrow(
+      'Unknown versioning scheme "nope"'
+    )
+  })
+
+  describe('loose', () => {
+    it('sorts four-part versions and build metadata', () => {
+      expect(
+        sortDesc('loose', ['1.2.3.4', '1.2.3.10', '1.2.3+build5', '1.2.3'])
+      ).toEqual(['1.2.3.10', '1.2.3+build5', '1.2.3.4', '1.2.3'])
+    })
+
+    it('detects prereleases by keyword', () => {
+      const scheme = getVersionScheme('loose')
+      expect(scheme.isPrerelease('1.2.3-rc1')).toBe(true)
+      expect(scheme.isPrerelease('1.2.3-1')).toBe(false)
+      expect(scheme.compare('1.2.3', '1.2.3-beta')).toBe(1)
+    })
+  })
+
+  describe('calver', () => {
+    it('sorts MinIO style dated tags', () => {
+      expect(
+        sortDesc('calver', [
+          'RELEASE.2024-05-01T00-00-00Z',
+          'RELEASE.2024-10-02T17-50-41Z',
+          'RELEASE.2024-10-02T10-00-00Z'
+        ])
+      ).toEqual([
+        'RELEASE.2024-10-02T17-50-41Z',
+        'RELEASE.2024-10-02T10-00-00Z',
+        'RELEASE.2024-05-01T00-00-00Z'
+      ])
+    })
+
+    it('keeps the full tag when normalizing', () => {
+      const scheme = getVersionScheme('calver')
+      expect(scheme.normalize('RELEASE.2024-05-01T00-00-00Z')).toBe(
+        'RELEASE.2024-05-01T00-00-00Z'
+      )
+      expect(scheme.isValid('2024.10.1')).toBe(true)
+      expect(scheme.isValid('latest')).toBe(false)
+    })
+
+    it('supports version lag on calendar components', () => {
+      const releases = ['2024.10.1', '2024.10.0', '2024.9.3', '2024.8.0'].map(
+        (tag_name) => ({ tag_name, html_url: '', published_at: '' })
+      )
+      const lagged = applyVersionLag(
+        releases,
+        1,
+        'minor',
+        getVersionScheme('calver')
+      )
+      expect(lagged.map((r) => r.tag_name)).toEqual(['2024.9.3'])
+    })
+  })
+
+  describe('docker', () => {
+    it('treats suffixes as variants instead of prereleases', () => {
+      const scheme = getVersionScheme('docker')
+      expect(scheme.isPrerelease('1.25.3-alpine')).toBe(false)
+      expect(scheme.isValid('latest')).toBe(false)
+      expect(sortDesc('docker', ['1.9-alpine', '1.25.3-alpine'])).toEqual([
+        '1.25.3-alpine',
+        '1.9-alpine'
+      ])
+    })
+
+    it('orders variants of the same version deterministically', () => {
+      expect(
+        sortDesc('docker', ['1.27.0-alpine', '1.27.0', '1.27.0-perl'])
+      ).toEqual(['1.27.0', '1.27.0-perl', '1.27.0-alpine'])
+      expect(
+        sortDesc('docker', ['1.27.0-perl', '1.27.0-alpine', '1.27.0'])
+      ).toEqual(['1.27.0', '1.27.0-perl', '1.27.0-alpine'])
+    })
+  })
+
+  describe('regex', () => {
+    const scheme = getVersionScheme(
+      'regex:^v?(?<major>\\d+)\\.(?<minor>\\d+)\\.(?<patch>\\d+)(?:-(?<prerelease>[a-z]+\\d*))?$'
+    )
+
+    it('uses capture groups for parts and prereleases', () => {
+      expect(scheme.getParts('v1.2.3-beta1')).toEqual([1, 2, 3])
+      expect(scheme.isPrerelease('v1.2.3-beta1')).toBe(true)
+      expect(scheme.isValid('1.2')).toBe(false)
+      expect(scheme.compare('1.2.3', '1.2.3-beta1')).toBe(1)
+      expect(scheme.compare('1.10.0', '1.9.9')).toBe(1)
+    })
+
+    it('requires a major capture group', () => {
+      expect(() => getVersionScheme('regex:^(\\d+)$')).toThrow(
+        'requires a "major" capture group'
+      )
+    })
+  })
+
+  describe('satisfiesRange', () => {
+    it.each([
+      ['1.9.0', '1.x', true],
+      ['2.0.0', '1.x', false],
+      ['v2.3.1', '>=2.3 <3', true],
+      ['3.0.0', '>=2.3 <3', false],
+      ['2.2.9', '>= 2.3 < 3', false],
+      ['1.4.0', '^1.2', true],
+      ['0.3.0', '^0.2.3', false],
+      ['1.2.9', '~1.2.3', true],
+      ['1.3.0', '~1.2.3', false],
+      ['1.2.7', '1.2', true],
+      ['4.1.0', '1.x || 4.*', true],
+      ['5.0.0', '1.x || 4.*', false],
+      ['1.2.0', '1.2 - 2.0', true],
+      ['1.1.9', '1.2 - 2.0', false],
+      ['2.0.9', '1.2 - 2.0', true],
+      ['2.1.0', '1.2 - 2.0', false],
+      ['2.9.0', '1 - 2', true],
+      ['3.0.0', '1 - 2', false],
+      ['2.3.4', 'v1.2.3 - v2.3.4', true],
+      ['2.3.5', '1.2.3 - 2.3.4', false],
+      ['0.5.0', '1.2 - 2.0 || 0.x', true]
+    ])('%s in "%s" is %s', (version, range, expected) => {
+      expect(satisfiesRange(version, range)).toBe(expected)
+    })
+
+    it('rejects malformed hyphen ranges', () => {
+      expect(() => satisfiesRange('1.0.0', '>=1.2 - 2.0')).toThrow(
+        'Invalid hyphen range ">=1.2 - 2.0", expected "<lower> - <upper>"'
+      )
+    })
+
+    it('compares with the configured scheme', () => {
+      expect(
+        satisfiesRange('2024.10.1', '<2025', getVersionScheme('calver'))
+      ).toBe(true)
+    })
+  })
+
+  describe('matchesVersionPattern', () => {
+    it.each([
+      ['v1.2.3', '1.2.3', true],
+      ['1.2.3-rc1', '1.2.3', false],
+      ['1.2.3', '1.2.x', true],
+      ['2.0.1', '>=2.0.0 <2.0.2', true],
+      ['1.4.0-broken', '/-broken$/', true],
+      ['1.4.0', '/-BROKEN$/i', false]
+    ])('%s against "%s" is %s', (version, pattern, expected) => {
+      expect(matchesVersionPattern(version, pattern)).toBe(expected)
+    })
+  })
+})
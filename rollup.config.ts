@@ -4,19 +4,26 @@ import commonjs from '@rollup/plugin-commonjs'
 import nodeResolve from '@rollup/plugin-node-resolve'
 import typescript from '@rollup/plugin-typescript'
 
-const config = {
-  input: 'src/index.ts',
+// The action and the CLI are bundled separately so each stays a single file
+const bundle = (input: string, file: string, banner?: string) => ({
+  input,
   output: {
     esModule: true,
-    file: 'dist/index.js',
+    file,
     format: 'es',
-    sourcemap: true
+    sourcemap: true,
+    banner
   },
   plugins: [typescript(), nodeResolve({ preferBuiltins: true }), commonjs()],
   onwarn(warning, warn) {
     if (warning.code === 'CIRCULAR_DEPENDENCY') return
     warn(warning)
   }
-}
+})
+
+const config = [
+  bundle('src/index.ts', 'dist/index.js'),
+  bundle('src/bin.ts', 'dist/cli.js', '#!/usr/bin/env node')
+]
 
 export default config
@@ -0,0 +1,6 @@
+/**
+ * The entrypoint for the command line interface.
+ */
+import { runCli } from './cli.js'
+
+runCli()
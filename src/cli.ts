@@ -0,0 +1,251 @@
+import { parseArgs } from 'util'
+import { AppConfig, ApplicationResult } from './types.js'
+import { loadApplications, toAppConfig } from './config.js'
+import { processApplication } from './main.js'
+import { resetLogBuffer, setGlobalDryRun, setGlobalQuiet } from './utils.js'
+
+const USAGE = `Usage: version-update <check|apply> [options]
+
+Commands:
+  check                 List available updates without changing anything
+  apply                 Write available updates to the local files
+
+Options:
+  -c, --config <file>   Versions config file (default: versions-config.yaml)
+  -a, --app <name>      Only process this application (name or repo, repeatable)
+      --github-token    GitHub token (default: $GITHUB_TOKEN or $GH_TOKEN)
+  -v, --verbose         Print the full log of every application
+  -h, --help            Show this help
+
+AI risk analysis, GitLab/Gitea sources and private registries are configured
+with OPENAI_API_KEY, OPENAI_MODEL, OPENAI_BASE_URL, SOURCE_TOKEN,
+SOURCE_BASE_URL, REGISTRY_HOST, REGISTRY_USERNAME and REGISTRY_PASSWORD.`
+
+const COLORS = {
+  bold: 1,
+  red: 31,
+  green: 32,
+  yellow: 33,
+  cyan: 36,
+  gray: 90
+}
+
+type Color = keyof typeof COLORS
+
+const STATUS_COLORS: Record<ApplicationResult['status'], Color> = {
+  updated: 'cyan',
+  issue: 'cyan',
+  'up-to-date': 'green',
+  skipped: 'gray',
+  removed: 'gray',
+  failed: 'red'
+}
+
+const BUMP_COLORS: Record<string, Color> = {
+  major: 'red',
+  minor: 'yellow',
+  patch: 'green'
+}
+
+function paint(text: string, color: Color | undefined, enabled: boolean) {
+  return enabled && color ? `\x1b[${COLORS[color]}m${text}\x1b[0m` : text
+}
+
+/**
+ * Renders the results as an aligned table. Cells are padded before they are
+ * colored so escape codes don't throw off the alignment.
+ */
+export function formatResultsTable(
+  results: ApplicationResult[],
+  command: 'check' | 'apply',
+  color = false
+): string {
+  const header = ['APPLICATION', 'CURRENT', 'LATEST', 'BUMP', 'RISK', 'STATUS']
+  const rows = results.map((r) => [
+    r.name,
+    r.currentVersion || '-',
+    r.newVersion || '-',
+    r.bumpType || '-',
+    r.risk || '-',
+    r.status === 'updated'
+      ? command === 'check'
+        ? 'update available'
+        : 'updated'
+      : r.status
+  ])
+  const widths = header.map((h, i) =>
+    Math.max(h.length, ...rows.map((row) => row[i].length))
+  )
+  const line = (cells: string[], colors: (Color | undefined)[]) =>
+    cells
+      .map((cell, i) =>
+        paint(
+          i < cells.length - 1 ? cell.padEnd(widths[i]) : cell,
+          colors[i],
+          color
+        )
+      )
+      .join('  ')
+
+  return [
+    line(
+      header,
+      header.map(() => 'bold')
+    ),
+    ...rows.map((row, i) =>
+      line(row, [
+        undefined,
+        undefined,
+        results[i].newVersion ? 'bold' : undefined,
+        BUMP_COLORS[row[3]],
+        undefined,
+        STATUS_COLORS[results[i].status]
+      ])
+    )
+  ].join('\n')
+}
+
+function readCliConfig(
+  command: 'check' | 'apply',
+  configFile: string,
+  githubToken: string
+): AppConfig {
+  const env = process.env
+  return {
+    repo: '',
+    type: 'kubernetes',
+    source: 'github',
+    targets: [],
+    tagNotes: 'none',
+    versioning: 'semver',
+    updatePolicy: {},
+    openaiConfig: {
+      baseURL: env.OPENAI_BASE_URL,
+      model: env.OPENAI_MODEL,
+      apiKey: env.OPENAI_API_KEY,
+      maxNoteLength: 15000
+    },
+    sourceConfig: {
+      baseURL: env.SOURCE_BASE_URL,
+      token: env.SOURCE_TOKEN
+    },
+    registryCredentials: {
+      host: env.REGISTRY_HOST,
+      username: env.REGISTRY_USERNAME,
+      password: env.REGISTRY_PASSWORD
+    },
+    maxReleases: Infinity,
+    baseBranch: '',
+    dryRun: command === 'check',
+    local: true,
+    githubToken,
+    gitUserName: '',
+    gitUserEmail: '',
+    configFile,
+    includePrereleases: false,
+    versionLag: 0,
+    versionLagDepth: 'minor'
+  }
+}
+
+/**
+ * Runs the update check against a versions config from the command line.
+ * `check` only reports, `apply` also writes the new versions to the working
+ * tree; neither commits, pushes or opens pull requests.
+ */
+export async function runCli(argv = process.argv.slice(2)): Promise<void> {
+  let parsed
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        config: { type: 'string', short: 'c', default: 'versions-config.yaml' },
+        app: { type: 'string', short: 'a', multiple: true },
+        'github-token': { type: 'string' },
+        verbose: { type: 'boolean', short: 'v', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    })
+  } catch (error: unknown) {
+    console.error(error instanceof Error ? error.message : error)
+    console.error(USAGE)
+    process.exitCode = 2
+    return
+  }
+
+  const { values, positionals } = parsed
+  const [command] = positionals
+  if (values.help) {
+    console.log(USAGE)
+    return
+  }
+  if (command !== 'check' && command !== 'apply') {
+    console.error(command ? `Unknown command: ${command}` : 'Missing command')
+    console.error(USAGE)
+    process.exitCode = 2
+    return
+  }
+
+  const githubToken =
+    values['github-token'] ||
+    process.env.GITHUB_TOKEN ||
+    process.env.GH_TOKEN ||
+    ''
+  const inputs = readCliConfig(command, values.config, githubToken)
+  setGlobalDryRun(inputs.dryRun)
+  setGlobalQuiet(!values.verbose)
+
+  let applications
+  try {
+    // Plain messages: annotations only mean something in a workflow log
+    applications = loadApplications(inputs.configFile, false)
+  } catch (error: unknown) {
+    console.error(error instanceof Error ? error.message : error)
+    process.exitCode = 1
+    return
+  }
+  if (values.app?.length) {
+    const only = values.app
+    applications = applications.filter(
+      (app) => only.includes(app.name || '') || only.includes(app.repo)
+    )
+  }
+
+  const usesGithub = applications.some((app) =>
+    ['github', 'github-tags'].includes(toAppConfig(app, inputs).source)
+  )
+  if (usesGithub && !githubToken) {
+    console.error(
+      'A GitHub token is required for GitHub sources: set GITHUB_TOKEN or pass --github-token'
+    )
+    process.exitCode = 2
+    return
+  }
+
+  const results: ApplicationResult[] = []
+  for (const app of applications) {
+    resetLogBuffer()
+    const name = app.name || app.repo
+    try {
+      results.push(await processApplication(toAppConfig(app, inputs)))
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      results.push({ name, status: 'failed', detail: message })
+    }
+  }
+
+  const color = !!process.stdout.isTTY && !process.env.NO_COLOR
+  console.log(formatResultsTable(results, command, color))
+  for (const failure of results.filter((r) => r.status === 'failed')) {
+    console.error(paint(`✖ ${failure.name}: ${failure.detail}`, 'red', color))
+  }
+
+  const updates = results.filter((r) => r.status === 'updated').length
+  console.log(
+    `\n${updates} update(s) ${command === 'check' ? 'available' : 'written'}`
+  )
+  if (results.some((r) => r.status === 'failed')) {
+    process.exitCode = 1
+  }
+}
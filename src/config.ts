@@ -0,0 +1,370 @@
+import * as core from '@actions/core'
+import fs from 'fs'
+import * as yaml from 'js-yaml'
+import {
+  AppConfig,
+  ApplicationEntry,
+  ApplicationSettings,
+  VersionsConfig
+} from './types.js'
+import { findLineIndexForYamlPath } from './file-updater.js'
+import {
+  CONFIG_SCHEMA,
+  ValidationError,
+  validateSchema,
+  formatSchemaPath
+} from './schema.js'
+
+export function loadApplications(
+  configFile: string,
+  annotate: boolean = true
+): ApplicationEntry[] {
+  if (!fs.existsSync(configFile)) {
+    throw new Error(`Config file not found: ${configFile}`)
+  }
+
+  const content = fs.readFileSync(configFile, 'utf8')
+  const config = yaml.load(content)
+  reportValidationErrors(validateConfig(config), configFile, content, annotate)
+  return resolveApplications(config as VersionsConfig)
+}
+
+function presetNames(value?: string | string[]): string[] {
+  if (!value) return []
+  return typeof value === 'string' ? [value] : value
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Later settings win. Objects such as updatePolicy are merged key by key,
+// arrays and scalars are replaced.
+function mergeSettings<T extends ApplicationSettings>(
+  base: ApplicationSettings,
+  override: T
+): T {
+  const merged: Record<string, unknown> = { ...base }
+  for (const [key, value] of Object.entries(override)) {
+    if (key === 'extends' || value === undefined) continue
+    merged[key] =
+      isPlainObject(value) && isPlainObject(merged[key])
+        ? { ...merged[key], ...value }
+        : value
+  }
+  return merged as T
+}
+
+function applyPresets<T extends ApplicationSettings>(
+  settings: T,
+  presets: Record<string, ApplicationSettings>
+): T {
+  const inherited = presetNames(settings.extends).reduce(
+    (base: ApplicationSettings, name) =>
+      mergeSettings(base, applyPresets(presets[name], presets)),
+    {}
+  )
+  return mergeSettings(inherited, settings)
+}
+
+/**
+ * Applies `defaults:` and the presets each application extends, in that
+ * order, so that every entry carries its effective settings. Expects a
+ * config that passed validateConfig.
+ */
+export function resolveApplications(
+  config: VersionsConfig
+): ApplicationEntry[] {
+  const presets = config.presets || {}
+  return config.applications.map((app) =>
+    mergeSettings(config.defaults || {}, applyPresets(app, presets))
+  )
+}
+
+// An application that names its own source host never gets the source_token
+// input, which belongs to the source_base_url host
+function sourceConfigFor(
+  app: ApplicationEntry,
+  inputs: AppConfig
+): AppConfig['sourceConfig'] {
+  if (!app.sourceBaseUrl && !app.sourceTokenEnv) return inputs.sourceConfig
+  return {
+    baseURL: app.sourceBaseUrl ?? inputs.sourceConfig?.baseURL,
+    token: app.sourceTokenEnv ? process.env[app.sourceTokenEnv] : undefined
+  }
+}
+
+/**
+ * Builds the config for one application. Fields that identify the
+ * application come from the entry alone; tuning fields fall back to the
+ * action inputs, and credentials and git settings always come from them.
+ */
+export function toAppConfig(
+  app: ApplicationEntry,
+  inputs: AppConfig
+): AppConfig {
+  return {
+    ...inputs,
+    repo: app.repo,
+    type: app.type || 'kubernetes',
+    source: app.source || 'github',
+    chart: app.chart,
+    sourceConfig: sourceConfigFor(app, inputs),
+    targets:
+      app.targets ||
+      (app.file && app.path ? [{ file: app.file, path: app.path }] : []),
+    version: app.version !== undefined ? String(app.version) : undefined,
+    description: app.description,
+    releaseFilter: app.releaseFilter,
+    allowedVersions: app.allowedVersions,
+    ignoreVersions:
+      typeof app.ignoreVersions === 'string'
+        ? [app.ignoreVersions]
+        : app.ignoreVersions,
+    tagNotes: app.tagNotes ?? inputs.tagNotes,
+    minimumReleaseAge: app.minimumReleaseAge ?? inputs.minimumReleaseAge,
+    allowUndatedReleases:
+      app.allowUndatedReleases ?? inputs.allowUndatedReleases,
+    updatePolicy: app.updatePolicy ?? inputs.updatePolicy,
+    versioning: app.versioning ?? inputs.versioning,
+    versionLag: app.versionLag ?? inputs.versionLag,
+    versionLagDepth: app.versionLagDepth ?? inputs.versionLagDepth,
+    includePrereleases: app.includePrereleases ?? inputs.includePrereleases,
+    maxReleases: app.maxReleases ?? inputs.maxReleases,
+    labels: app.labels ?? inputs.labels,
+    group: app.group,
+    openaiConfig: {
+      ...inputs.openaiConfig,
+      model: app.openaiModel ?? inputs.openaiConfig?.model,
+      baseURL: app.openaiBaseUrl ?? inputs.openaiConfig?.baseURL,
+      maxNoteLength:
+        app.openaiMaxNoteLength ?? inputs.openaiConfig?.maxNoteLength
+    }
+  }
+}
+
+/**
+ * Returns a copy of the config that is safe to print, with credentials
+ * masked.
+ */
+export function redactConfig(config: AppConfig): AppConfig {
+  const mask = (value?: string) => (value ? '***' : value)
+  return {
+    ...config,
+    githubToken: mask(config.githubToken)!,
+    openaiConfig: config.openaiConfig && {
+      ...config.openaiConfig,
+      apiKey: mask(config.openaiConfig.apiKey)
+    },
+    sourceConfig: config.sourceConfig && {
+      ...config.sourceConfig,
+      token: mask(config.sourceConfig.token)
+    },
+    provider: config.provider && {
+      ...config.provider,
+      token: mask(config.provider.token)
+    },
+    registryCredentials: config.registryCredentials && {
+      ...config.registryCredentials,
+      password: mask(config.registryCredentials.password)
+    }
+  }
+}
+
+/**
+ * Checks what the schema can't express: fields required only for some
+ * application types or sources.
+ */
+function validateApplication(
+  app: ApplicationEntry,
+  index: number
+): ValidationError[] {
+  const path = ['applications', index]
+  const errors: ValidationError[] = []
+  if (app.source === 'helmrepo' && !app.chart) {
+    errors.push({
+      path,
+      message: '"chart" is required for the helmrepo source'
+    })
+  }
+  if (app.type === 'manual') {
+    if (app.version === undefined) {
+      errors.push({
+        path,
+        message: '"version" is required for manual applications'
+      })
+    }
+  } else if (!app.targets && (!app.file || !app.path)) {
+    errors.push({
+      path,
+      message: '"targets" (or "file" and "path") is required'
+    })
+  }
+  return errors
+}
+
+/**
+ * Checks that every preset named in `extends` exists and that presets don't
+ * extend each other in a loop.
+ */
+function validatePresetReferences(config: VersionsConfig): ValidationError[] {
+  const presets = config.presets || {}
+  const errors: ValidationError[] = []
+  const checkNames = (
+    value: string | string[] | undefined,
+    path: (string | number)[]
+  ) => {
+    for (const name of presetNames(value)) {
+      if (!Object.prototype.hasOwnProperty.call(presets, name)) {
+        errors.push({ path, message: `unknown preset "${name}"` })
+      }
+    }
+  }
+
+  const findCycle = (name: string, chain: string[]): string[] | undefined => {
+    if (chain.includes(name)) return [...chain, name]
+    for (const next of presetNames(presets[name]?.extends)) {
+      const cycle = findCycle(next, [...chain, name])
+      if (cycle) return cycle
+    }
+    return undefined
+  }
+
+  for (const [name, preset] of Object.entries(presets)) {
+    const path = ['presets', name, 'extends']
+    checkNames(preset.extends, path)
+    const cycle = findCycle(name, [])
+    if (cycle && cycle[0] === name) {
+      errors.push({
+        path,
+        message: `presets extend each other in a loop: ${cycle.join(' → ')}`
+      })
+    }
+  }
+  config.applications.forEach((app, i) =>
+    checkNames(app.extends, ['applications', i, 'extends'])
+  )
+  return errors
+}
+
+export function validateConfig(config: unknown): ValidationError[] {
+  const schemaErrors = validateSchema(config, CONFIG_SCHEMA)
+  if (schemaErrors.length > 0) return schemaErrors
+  const referenceErrors = validatePresetReferences(config as VersionsConfig)
+  if (referenceErrors.length > 0) return referenceErrors
+  return resolveApplications(config as VersionsConfig).flatMap((app, i) =>
+    validateApplication(app, i)
+  )
+}
+
+/**
+ * Finds the line and column of a schema path in the YAML source, falling
+ * back to the closest parent that can be found.
+ */
+export function locateSchemaPath(
+  content: string,
+  path: (string | number)[]
+): { line: number; column: number } {
+  const lines = content.split('\n')
+  for (let end = path.length; end > 0; end--) {
+    const index = findLineIndexForYamlPath(
+      content,
+      path.slice(0, end).join('.')
+    )
+    if (index === -1) continue
+    const last = path[end - 1]
+    const column =
+      typeof last === 'number'
+        ? lines[index].indexOf('-')
+        : lines[index].search(new RegExp(`${last}\\s*:`))
+    return { line: index + 1, column: Math.max(column, 0) + 1 }
+  }
+  return { line: 1, column: 1 }
+}
+
+/**
+ * Reports each problem as an error annotation on the offending line and
+ * throws with all of them. Outside GitHub Actions, annotate is off and the
+ * problems are only part of the error message.
+ */
+export function reportValidationErrors(
+  errors: ValidationError[],
+  source: string,
+  content?: string,
+  annotate: boolean = true
+): void {
+  if (errors.length === 0) return
+  const messages = errors.map((e) => {
+    const at = formatSchemaPath(e.path)
+    const message = at ? `${at}: ${e.message}` : e.message
+    if (content === undefined) {
+      if (annotate) core.error(message, { title: `Invalid ${source}` })
+      return message
+    }
+    const { line, column } = locateSchemaPath(content, e.path)
+    if (annotate) {
+      core.error(message, {
+        title: `Invalid ${source}`,
+        file: source,
+        startLine: line,
+        startColumn: column
+      })
+    }
+    return `${source}:${line}:${column}: ${message}`
+  })
+  throw new Error(
+    `${source} has ${errors.length} problem(s):\n${messages.join('\n')}`
+  )
+}
+
+/**
+ * Builds a GitHub Actions matrix from validated applications. Each entry holds
+ * the effective per-application config under the same camelCase names, with
+ * structured values JSON-encoded so they can be passed straight to inputs.
+ */
+export function buildMatrix(
+  applications: ApplicationEntry[],
+  inputs: AppConfig
+): { include: Record<string, string | number | boolean>[] } {
+  const include = applications.map((app) => {
+    const config = toAppConfig(app, inputs)
+    const entry: Record<string, string | number | boolean | undefined> = {
+      name: app.name || config.repo,
+      repo: config.repo,
+      type: config.type,
+      source: config.source,
+      chart: config.chart,
+      tagNotes: config.tagNotes,
+      sourceBaseUrl: config.sourceConfig?.baseURL,
+      sourceTokenEnv: app.sourceTokenEnv,
+      targets: config.targets.length ? JSON.stringify(config.targets) : '',
+      version: config.version,
+      description: config.description,
+      releaseFilter: config.releaseFilter,
+      allowedVersions: config.allowedVersions,
+      ignoreVersions: config.ignoreVersions?.length
+        ? JSON.stringify(config.ignoreVersions)
+        : '',
+      minimumReleaseAge: config.minimumReleaseAge,
+      allowUndatedReleases: config.allowUndatedReleases,
+      updatePolicy:
+        config.updatePolicy && Object.keys(config.updatePolicy).length
+          ? JSON.stringify(config.updatePolicy)
+          : '',
+      versioning: config.versioning,
+      versionLag: config.versionLag,
+      versionLagDepth: config.versionLagDepth,
+      includePrereleases: config.includePrereleases,
+      maxReleases: String(config.maxReleases),
+      labels: config.labels?.join(','),
+      openaiModel: config.openaiConfig?.model,
+      openaiBaseUrl: config.openaiConfig?.baseURL,
+      openaiMaxNoteLength: config.openaiConfig?.maxNoteLength
+    }
+    return Object.fromEntries(
+      Object.entries(entry).filter(([, v]) => v !== undefined && v !== '')
+    ) as Record<string, string | number | boolean>
+  })
+
+  return { include }
+}
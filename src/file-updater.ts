@@ -1,6 +1,7 @@
 import fs from 'fs'
 import * as yaml from 'js-yaml'
 import { log } from './utils.js'
+import { parseImageReference, formatImageReference } from './image-reference.js'
 
 function getLineIndent(line: string): number {
   const match = line.match(/^(\s*)/)
@@ -26,6 +27,7 @@ export function findLineIndexForYamlPath(
     if (/^\d+$/.test(segment)) {
       const targetIndex = parseInt(segment, 10)
       let listIndex = 0
+      let itemIndent = -1
 
       for (let i = startLine; i < lines.length; i++) {
         const line = lines[i]
@@ -35,6 +37,9 @@ export function findLineIndexForYamlPath(
         if (indent <= parentIndent && listIndex > 0) break
 
         if (!line.match(/^\s*-\s+/)) continue
+        // Dashes of nested lists belong to the current item
+        if (itemIndent === -1) itemIndent = indent
+        if (indent !== itemIndent) continue
 
         if (listIndex === targetIndex) {
           if (segIndex + 1 >= segments.length) return i
@@ -130,12 +135,14 @@ export function setYamlValue(
   path: string,
   newValue: string,
   type: 'kubernetes' | 'helm',
-  dryRun: boolean
+  dryRun: boolean,
+  digest?: string
 ): void {
   const content = fs.readFileSync(file, 'utf8')
   const oldValue = getYamlValue(file, path)
+  const newLog = digest ? `${newValue}@${digest}` : newValue
 
-  log(`✍️  Update ${file} -> ${path}: ${oldValue} -> ${newValue}`, dryRun)
+  log(`✍️  Update ${file} -> ${path}: ${oldValue} -> ${newLog}`, dryRun)
 
   if (dryRun) {
     return
@@ -144,9 +151,21 @@ export function setYamlValue(
   const targetKey = path.split('.').pop()!
   let replaceVal = newValue
 
-  if (type === 'kubernetes' && oldValue && oldValue.includes(':')) {
-    const [repo] = oldValue.split(':')
-    replaceVal = `${repo}:${newValue}`
+  if (type === 'kubernetes') {
+    // Only the tag is rewritten, an image without one is never replaced
+    const image = parseImageReference(oldValue || '')
+    if (image.tag === undefined) {
+      throw new Error(
+        `${file} -> ${path} has no image tag to update: ${oldValue}`
+      )
+    }
+    // Never leave a pin pointing at the old image
+    if (image.digest && !digest) {
+      throw new Error(
+        `${file} -> ${path} is pinned to a digest but no digest was resolved for ${newValue}`
+      )
+    }
+    replaceVal = formatImageReference({ ...image, tag: newValue, digest })
   }
 
   const lineIndex = findLineIndexForYamlPath(content, path)
@@ -0,0 +1,96 @@
+export interface ImageReference {
+  registry?: string
+  port?: number
+  namespace?: string
+  repository: string
+  tag?: string
+  digest?: string
+}
+
+/**
+ * Parses a container image reference such as
+ * "registry.local:5000/team/app:1.2.3@sha256:...". Parts that are not written
+ * (e.g. the implicit docker.io registry) are left undefined so the reference
+ * round-trips through formatImageReference untouched.
+ */
+export function parseImageReference(image: string): ImageReference {
+  let rest = image.trim()
+  let digest: string | undefined
+  const at = rest.indexOf('@')
+  if (at !== -1) {
+    digest = rest.slice(at + 1)
+    rest = rest.slice(0, at)
+  }
+
+  let tag: string | undefined
+  const colon = rest.lastIndexOf(':')
+  if (colon > rest.lastIndexOf('/')) {
+    tag = rest.slice(colon + 1)
+    rest = rest.slice(0, colon)
+  }
+
+  const segments = rest.split('/')
+  let registry: string | undefined
+  let port: number | undefined
+  const first = segments[0]
+  if (
+    segments.length > 1 &&
+    (first.includes('.') || first.includes(':') || first === 'localhost')
+  ) {
+    segments.shift()
+    const [host, portStr] = first.split(':')
+    registry = host
+    port = portStr ? parseInt(portStr, 10) : undefined
+  }
+
+  const repository = segments.pop()!
+  const namespace = segments.length > 0 ? segments.join('/') : undefined
+
+  return { registry, port, namespace, repository, tag, digest }
+}
+
+export function formatImageReference(ref: ImageReference): string {
+  let image = getImageName(ref)
+  if (ref.tag) image += `:${ref.tag}`
+  if (ref.digest) image += `@${ref.digest}`
+  return image
+}
+
+/**
+ * Returns the image name without tag or digest, as it was written.
+ */
+export function getImageName(ref: ImageReference): string {
+  const parts: string[] = []
+  if (ref.registry) {
+    parts.push(ref.port ? `${ref.registry}:${ref.port}` : ref.registry)
+  }
+  if (ref.namespace) parts.push(ref.namespace)
+  parts.push(ref.repository)
+  return parts.join('/')
+}
+
+/**
+ * Resolves the Registry v2 API host and repository name for a reference,
+ * filling in the implicit Docker Hub registry and "library" namespace.
+ */
+export function resolveRegistryRepository(ref: ImageReference): {
+  host: string
+  name: string
+} {
+  const isDockerHub =
+    !ref.registry ||
+    ref.registry === 'docker.io' ||
+    ref.registry === 'index.docker.io'
+
+  if (isDockerHub) {
+    return {
+      host: 'registry-1.docker.io',
+      name: `${ref.namespace || 'library'}/${ref.repository}`
+    }
+  }
+
+  return {
+    host: ref.port ? `${ref.registry}:${ref.port}` : ref.registry!,
+    name: ref.namespace ? `${ref.namespace}/${ref.repository}` : ref.repository
+  }
+}
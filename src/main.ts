@@ -1,8 +1,29 @@
 import * as core from '@actions/core'
 import * as exec from '@actions/exec'
 import fs from 'fs'
-import { AppConfig, Release, Target } from './types.js'
-import { GitHubService, DockerHubService, OpenAIService } from './services.js'
+import path from 'path'
+import { createHash } from 'crypto'
+import {
+  AppConfig,
+  ApplicationEntry,
+  ApplicationResult,
+  FileChange,
+  GroupedUpdate,
+  HeldBackRelease,
+  Release,
+  RiskAssessment,
+  Target
+} from './types.js'
+import {
+  GitHubService,
+  DockerHubService,
+  RegistryService,
+  HelmRepoService,
+  HelmOciService,
+  GitLabService,
+  GiteaService,
+  OpenAIService
+} from './services.js'
 import {
   getYamlValue,
   setYamlValue,
@@ -11,104 +32,746 @@ import {
 } from './file-updater.js'
 import {
   log,
-  normalizeVersion,
-  compareVersions,
-  isPrerelease,
+  getTagFlavor,
+  filterByFlavor,
   applyVersionLag,
   formatRisk,
   setGlobalDryRun,
   getRelevantReleases,
   getLogBuffer,
-  generatePrBody
+  resetLogBuffer,
+  generatePrBody,
+  generateGroupPrBody,
+  parseDuration,
+  getBumpType,
+  isRiskAtOrBelow
 } from './utils.js'
+import { parseImageReference, getImageName } from './image-reference.js'
+import {
+  getVersionScheme,
+  satisfiesRange,
+  matchesVersionPattern
+} from './versioning.js'
+import {
+  loadApplications,
+  toAppConfig,
+  buildMatrix,
+  redactConfig,
+  reportValidationErrors
+} from './config.js'
+import { createChangeRequestProvider } from './providers.js'
+import { STATUS_ICONS, writeRunSummary } from './summary.js'
+import {
+  TARGETS_SCHEMA,
+  UPDATE_POLICY_SCHEMA,
+  validateSchema
+} from './schema.js'
 
 export async function run(): Promise<void> {
+  let originalRef: string | undefined
+  let single: AppConfig | undefined
   try {
-    const maxReleasesInput = core.getInput('max_releases')
-    const targetsInput = core.getInput('targets')
-    const config: AppConfig = {
-      repo: core.getInput('repo', { required: true }),
-      type: core.getInput('type') as 'kubernetes' | 'helm' | 'manual',
-      source: core.getInput('source') as 'github' | 'dockerhub',
-      targets: targetsInput ? JSON.parse(targetsInput) : [],
-      version: core.getInput('version'),
-      description: core.getInput('description'),
-      releaseFilter: core.getInput('release_filter'),
-      openaiConfig: {
-        baseURL: core.getInput('openai_base_url'),
-        model: core.getInput('openai_model'),
-        apiKey: core.getInput('openai_api_key'),
-        maxNoteLength: parseInt(
-          core.getInput('openai_max_note_length') || '15000'
+    const mode = core.getInput('mode') || 'single'
+    const config = readInputs()
+    setGlobalDryRun(config.dryRun)
+
+    if (mode === 'config') {
+      originalRef = await checkoutBaseBranch(config)
+      await processConfigFile(config)
+      return
+    }
+
+    if (mode === 'list') {
+      const matrix = buildMatrix(loadApplications(config.configFile), config)
+      log(
+        `📋 Listed ${matrix.include.length} application(s) from ${config.configFile}`
+      )
+      core.setOutput('matrix', JSON.stringify(matrix))
+      return
+    }
+
+    if (!config.repo) throw new Error('Input required and not supplied: repo')
+    single = config
+    originalRef = await checkoutBaseBranch(config)
+    const result = await processApplication(config)
+    // The application has its result, later errors must not report it again
+    single = undefined
+    setResultOutputs([result])
+    setApplicationOutputs(result)
+    await writeRunSummary([result], config.dryRun)
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    core.setFailed(message)
+    if (single) {
+      // Report the failed application like config mode does
+      const result: ApplicationResult = {
+        name: single.repo,
+        status: 'failed',
+        detail: message
+      }
+      setResultOutputs([result])
+      await writeRunSummary([result], single.dryRun)
+    }
+  } finally {
+    if (originalRef) {
+      await exec.exec('git', ['checkout', originalRef], {
+        ignoreReturnCode: true
+      })
+    }
+  }
+}
+
+// Outputs covering every application of the run
+function setResultOutputs(results: ApplicationResult[]): void {
+  const updated = results.filter((r) => r.status === 'updated')
+  core.setOutput('updated', updated.length > 0)
+  core.setOutput(
+    'updates',
+    JSON.stringify(
+      updated.flatMap((r) =>
+        (r.changes || []).map((change) => ({ application: r.name, ...change }))
+      )
+    )
+  )
+}
+
+// Outputs describing the single application of a run
+function setApplicationOutputs(result: ApplicationResult): void {
+  const outputs = {
+    current_version: result.currentVersion,
+    new_version: result.newVersion,
+    bump_type: result.bumpType,
+    branch: result.branch,
+    pr_number: result.prNumber,
+    pr_url: result.prUrl,
+    overall_risk: result.risk,
+    worry_free: result.worryFree
+  }
+  for (const [name, value] of Object.entries(outputs)) {
+    if (value !== undefined) core.setOutput(name, value)
+  }
+}
+
+/**
+ * Resolves the base branch, falling back to the repository's default branch,
+ * and checks it out at its remote head so every update starts from it.
+ * Returns the ref that was checked out before so it can be restored.
+ */
+async function checkoutBaseBranch(
+  config: AppConfig
+): Promise<string | undefined> {
+  if (!config.baseBranch && config.dryRun) {
+    // A dry run makes no API calls, so the checked out branch stands in
+    config.baseBranch = (await currentBranch()) || 'main'
+    log(
+      `🌿 No base_branch set, using "${config.baseBranch}" as base for the dry run`
+    )
+  } else if (!config.baseBranch) {
+    config.baseBranch =
+      await createChangeRequestProvider(config).getDefaultBranch()
+    log(`🌿 Using the default branch "${config.baseBranch}" as base`)
+  }
+  // API commits start from the remote base branch; the working tree is only
+  // read, as checked out
+  if (config.commitMode === 'api') {
+    if (!config.dryRun) await ensureHeadIsBase(config)
+    return undefined
+  }
+  if (config.dryRun) {
+    log(`💻 git fetch origin ${config.baseBranch}`)
+    log(`💻 git checkout -B ${config.baseBranch} origin/${config.baseBranch}`)
+    return undefined
+  }
+
+  // A detached HEAD (e.g. a tag or pull request checkout) has no branch name
+  const originalRef =
+    (await currentBranch()) ||
+    (
+      await exec.getExecOutput('git', ['rev-parse', 'HEAD'], {
+        silent: true
+      })
+    ).stdout.trim()
+  await exec.exec('git', ['fetch', 'origin', config.baseBranch])
+  // The local branch may be behind, so it is reset to the fetched head
+  await exec.exec('git', [
+    'checkout',
+    '-B',
+    config.baseBranch,
+    `origin/${config.baseBranch}`
+  ])
+  return originalRef
+}
+
+// API commits put the changed files of the working tree on top of the remote
+// base branch, so any other checkout would revert the commits in between
+async function ensureHeadIsBase(config: AppConfig): Promise<void> {
+  const head = (
+    await exec.getExecOutput('git', ['rev-parse', 'HEAD'], { silent: true })
+  ).stdout.trim()
+  const baseHead = await createChangeRequestProvider(config).getBranchHead(
+    config.baseBranch
+  )
+  if (head !== baseHead) {
+    throw new Error(
+      `commit_mode "api" needs the latest commit of ${config.baseBranch} (${baseHead}) checked out, but HEAD is at ${head}`
+    )
+  }
+}
+
+async function currentBranch(): Promise<string | undefined> {
+  const branch = await exec.getExecOutput(
+    'git',
+    ['symbolic-ref', '--quiet', '--short', 'HEAD'],
+    { ignoreReturnCode: true, silent: true }
+  )
+  return branch.exitCode === 0 ? branch.stdout.trim() : undefined
+}
+
+function readInputs(): AppConfig {
+  const maxReleasesInput = core.getInput('max_releases')
+  const targetsInput = core.getInput('targets')
+  const updatePolicyInput = core.getInput('update_policy')
+  const ignoreVersionsInput = core.getInput('ignore_versions')
+  const targets = targetsInput ? JSON.parse(targetsInput) : []
+  if (targetsInput) {
+    reportValidationErrors(
+      validateSchema(targets, TARGETS_SCHEMA, ['targets']),
+      'targets input'
+    )
+  }
+  const updatePolicy = updatePolicyInput ? JSON.parse(updatePolicyInput) : {}
+  reportValidationErrors(
+    validateSchema(updatePolicy, UPDATE_POLICY_SCHEMA, ['update_policy']),
+    'update_policy input'
+  )
+  return {
+    repo: core.getInput('repo'),
+    type: core.getInput('type') as 'kubernetes' | 'helm' | 'manual',
+    source: core.getInput('source') as AppConfig['source'],
+    targets,
+    chart: core.getInput('chart'),
+    tagNotes: (core.getInput('tag_notes') || 'none') as
+      | 'none'
+      | 'message'
+      | 'compare',
+    version: core.getInput('version'),
+    description: core.getInput('description'),
+    releaseFilter: core.getInput('release_filter'),
+    allowedVersions: core.getInput('allowed_versions'),
+    minimumReleaseAge: core.getInput('minimum_release_age'),
+    allowUndatedReleases: core.getInput('allow_undated_releases') === 'true',
+    updatePolicy,
+    autoMerge: {
+      enabled: core.getInput('auto_merge') === 'true',
+      maxRisk: (core.getInput('auto_merge_max_risk') ||
+        'Low') as RiskAssessment['risk'],
+      mergeMethod: (core.getInput('merge_method') || 'squash') as
+        | 'merge'
+        | 'squash'
+        | 'rebase'
+    },
+    labels: core
+      .getInput('labels')
+      .split(/[\n,]/)
+      .map((l) => l.trim())
+      .filter(Boolean),
+    ignoreVersions: ignoreVersionsInput.trim().startsWith('[')
+      ? JSON.parse(ignoreVersionsInput)
+      : ignoreVersionsInput
+          .split('\n')
+          .map((v) => v.trim())
+          .filter(Boolean),
+    versioning: core.getInput('versioning') || 'semver',
+    openaiConfig: {
+      baseURL: core.getInput('openai_base_url'),
+      model: core.getInput('openai_model'),
+      apiKey: core.getInput('openai_api_key'),
+      maxNoteLength: parseInt(
+        core.getInput('openai_max_note_length') || '15000'
+      )
+    },
+    sourceConfig: {
+      baseURL: core.getInput('source_base_url'),
+      token: core.getInput('source_token')
+    },
+    provider: {
+      type: (core.getInput('provider') || 'github') as
+        | 'github'
+        | 'gitlab'
+        | 'gitea',
+      repository: core.getInput('repository'),
+      baseURL: core.getInput('provider_base_url'),
+      token: core.getInput('provider_token')
+    },
+    registryCredentials: {
+      // Without registry_host the credentials stay with the repo's registry
+      host:
+        core.getInput('registry_host') ||
+        (['registry', 'helmoci'].includes(core.getInput('source'))
+          ? core.getInput('repo')
+          : ''),
+      username: core.getInput('registry_username'),
+      password: core.getInput('registry_password')
+    },
+    maxReleases:
+      maxReleasesInput === 'Infinity' || !maxReleasesInput
+        ? Infinity
+        : parseInt(maxReleasesInput),
+    baseBranch: core.getInput('base_branch'),
+    dryRun: core.getInput('dry_run') === 'true',
+    commitMode: (core.getInput('commit_mode') || 'git') as 'git' | 'api',
+    githubToken: core.getInput('github_token'),
+    gitUserName: core.getInput('git_user_name'),
+    gitUserEmail: core.getInput('git_user_email'),
+    configFile: core.getInput('config_file') || 'versions-config.yaml',
+    includePrereleases: core.getInput('include_prereleases') === 'true',
+    versionLag: parseInt(core.getInput('version_lag') || '0'),
+    versionLagDepth: (core.getInput('version_lag_depth') || 'minor') as
+      | 'major'
+      | 'minor'
+      | 'patch'
+  }
+}
+
+/**
+ * Runs every application in the config file one after another. A failing
+ * application is reported in the summary without stopping the others.
+ */
+async function processConfigFile(inputs: AppConfig): Promise<void> {
+  const applications = loadApplications(inputs.configFile)
+  log(
+    `📚 Processing ${applications.length} application(s) from ${inputs.configFile}`
+  )
+
+  const results: ApplicationResult[] = []
+  const runApplication = async (
+    app: ApplicationEntry,
+    group?: ApplicationGroup
+  ) => {
+    resetLogBuffer()
+    const name = app.name || app.repo
+    try {
+      const config = toAppConfig(app, inputs)
+      core.debug(
+        `Effective config for "${name}": ${JSON.stringify(redactConfig(config))}`
+      )
+      results.push(await processApplication(config, group))
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      log(`❌ "${name}" failed: ${message}`)
+      results.push({ name, status: 'failed', detail: message })
+      if (!inputs.dryRun && inputs.commitMode !== 'api') {
+        // Leave a clean checkout for the next application, keeping what
+        // the rest of the group already committed
+        await exec.exec(
+          'git',
+          ['checkout', '--force', group?.branch ?? inputs.baseBranch],
+          {
+            ignoreReturnCode: true
+          }
         )
-      },
-      maxReleases:
-        maxReleasesInput === 'Infinity' || !maxReleasesInput
-          ? Infinity
-          : parseInt(maxReleasesInput),
-      dryRun: core.getInput('dry_run') === 'true',
-      githubToken: core.getInput('github_token', { required: true }),
-      gitUserName: core.getInput('git_user_name'),
-      gitUserEmail: core.getInput('git_user_email'),
-      configFile: core.getInput('config_file') || 'versions-config.yaml',
-      includePrereleases: core.getInput('include_prereleases') === 'true',
-      versionLag: parseInt(core.getInput('version_lag') || '0'),
-      versionLagDepth: (core.getInput('version_lag_depth') || 'minor') as
-        | 'major'
-        | 'minor'
-        | 'patch'
+      }
     }
+  }
 
-    setGlobalDryRun(config.dryRun)
+  const groups = new Map<string, ApplicationEntry[]>()
+  for (const app of applications) {
+    if (app.group) {
+      groups.set(app.group, [...(groups.get(app.group) || []), app])
+    } else {
+      await runApplication(app)
+    }
+  }
+
+  for (const [name, members] of groups) {
+    const group: ApplicationGroup = {
+      name,
+      branch: `bot/group-${name}`.replace(/[^\w.-]+/g, '-'),
+      updates: [],
+      originals: new Map()
+    }
+    log(`🧺 Processing group "${name}" (${members.length} application(s))`)
+    if (inputs.commitMode !== 'api') {
+      await runGit(inputs.dryRun, ['config', 'user.name', inputs.gitUserName])
+      await runGit(inputs.dryRun, ['config', 'user.email', inputs.gitUserEmail])
+      await runGit(inputs.dryRun, [
+        'checkout',
+        '-B',
+        group.branch,
+        `origin/${inputs.baseBranch}`
+      ])
+    }
+    const firstMember = results.length
+    for (const app of members) {
+      await runApplication(app, group)
+    }
+    try {
+      const published = await publishGroup(group, inputs)
+      for (const result of results.slice(firstMember)) {
+        if (result.status === 'updated') Object.assign(result, published)
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      log(`❌ Group "${name}" failed: ${message}`)
+      results.push({
+        name: `${name} (group)`,
+        status: 'failed',
+        detail: message
+      })
+      if (!inputs.dryRun && inputs.commitMode !== 'api') {
+        await exec.exec('git', ['checkout', '--force', inputs.baseBranch], {
+          ignoreReturnCode: true
+        })
+      }
+    }
+  }
+
+  log(`\n📋 Summary`)
+  for (const result of results) {
+    log(
+      `   ${STATUS_ICONS[result.status]} ${result.name}: ${result.status}${result.detail ? ` (${result.detail})` : ''}`
+    )
+  }
+
+  setResultOutputs(results)
+  await writeRunSummary(results, inputs.dryRun)
+
+  const failed = results.filter((r) => r.status === 'failed')
+  if (failed.length > 0) {
+    core.setFailed(
+      `${failed.length} application(s) failed: ${failed.map((r) => r.name).join(', ')}`
+    )
+  }
+}
 
-    const [owner, repoName] = config.repo.includes('/')
-      ? config.repo.split('/')
-      : [null, config.repo]
+// Applications that share one branch and pull request
+interface ApplicationGroup {
+  name: string
+  // Local branch the members commit onto
+  branch: string
+  updates: GroupedUpdate[]
+  // With API commits the members' changes stay in the working tree until the
+  // group is published; these are the files as they were before
+  originals: Map<string, string>
+}
 
-    const displayName = repoName || config.repo
+interface PendingUpdate {
+  target?: Target
+  currentVerRaw: string
+  targetVersion: string
+  digest?: string
+  isManual?: boolean
+}
 
-    const ghService = new GitHubService(config.githubToken)
-    const dhService = new DockerHubService()
-    const aiService = new OpenAIService(config.openaiConfig)
+// Runs a git command, or only logs it in dry run mode
+async function runGit(dryRun: boolean, args: string[]): Promise<void> {
+  if (dryRun) {
+    log(`💻 git ${args.join(' ')}`)
+  } else {
+    await exec.exec('git', args)
+  }
+}
 
-    log(`🪄 Processing application "${displayName}"`)
+// Files that applyUpdates writes for these updates
+function updatedFilePaths(
+  config: AppConfig,
+  updatesNeeded: PendingUpdate[]
+): string[] {
+  const paths = updatesNeeded.map((u) =>
+    u.isManual ? config.configFile : u.target?.file
+  )
+  return [...new Set(paths)].filter((p): p is string => !!p)
+}
 
-    let latestRelease: Release | undefined
-    let releases: Release[] = []
+function readFiles(paths: string[]): Map<string, string> {
+  return new Map(paths.map((p) => [p, fs.readFileSync(p, 'utf8')]))
+}
 
-    let currentVerRaw = ''
-    if (config.type === 'manual') {
-      currentVerRaw = config.version || ''
+function restoreFiles(snapshot: Map<string, string>): void {
+  for (const [file, contents] of snapshot) {
+    fs.writeFileSync(file, contents)
+  }
+}
+
+// Files that changed since the snapshot, as paths relative to the repository
+// root for API commits
+function changesSince(snapshot: Map<string, string>): FileChange[] {
+  return [...snapshot].flatMap(([file, before]) => {
+    const contents = fs.readFileSync(file, 'utf8')
+    if (contents === before) return []
+    const relative = path.relative(process.cwd(), path.resolve(file))
+    return [{ path: relative.split(path.sep).join('/'), contents }]
+  })
+}
+
+// Writes the new versions and stages the changed files
+async function applyUpdates(
+  config: AppConfig,
+  displayName: string,
+  updatesNeeded: PendingUpdate[]
+): Promise<void> {
+  for (const update of updatesNeeded) {
+    if (update.isManual) {
+      log(
+        `   - ${config.configFile} -> ${displayName}: ${update.currentVerRaw} -> ${update.targetVersion}`
+      )
+      updateConfigVersion(
+        config.configFile,
+        config.repo,
+        update.targetVersion,
+        config.dryRun
+      )
+      if (!config.local && config.commitMode !== 'api') {
+        await runGit(config.dryRun, ['add', config.configFile])
+      }
+    } else if (update.target) {
+      log(
+        `   - ${update.target.file} -> ${update.target.path}: ${update.currentVerRaw} -> ${update.targetVersion}`
+      )
+      setYamlValue(
+        update.target.file,
+        update.target.path,
+        update.targetVersion,
+        config.type as 'kubernetes' | 'helm',
+        config.dryRun,
+        update.digest
+      )
+      if (!config.local && config.commitMode !== 'api') {
+        await runGit(config.dryRun, ['add', update.target.file])
+      }
+    }
+  }
+}
+
+/**
+ * Pushes the commits of a group's members as one pull request. The branch is
+ * named after the updates it holds, so a group whose pending updates changed
+ * gets a new pull request and the outdated one is closed. Returns where the
+ * members were proposed.
+ */
+async function publishGroup(
+  group: ApplicationGroup,
+  inputs: AppConfig
+): Promise<Pick<ApplicationResult, 'branch' | 'prNumber' | 'prUrl'>> {
+  const { updates } = group
+  if (updates.length === 0) {
+    log(`✅ Group "${group.name}" has nothing to update`)
+    if (inputs.commitMode === 'api') {
+      restoreFiles(group.originals)
     } else {
-      try {
-        const firstTarget = config.targets[0]
-        if (!firstTarget) throw new Error('No targets defined for application')
-        currentVerRaw = getYamlValue(firstTarget.file, firstTarget.path) || ''
-        if (config.type === 'kubernetes' && currentVerRaw.includes(':')) {
-          currentVerRaw = currentVerRaw.split(':')[1]
-        }
-      } catch (e: unknown) {
-        if (
-          e instanceof Error &&
-          (e.message.includes('File not found') || e.message.includes('ENOENT'))
-        ) {
-          log(`⚠️ Target file not found for "${displayName}".`)
-          if (fs.existsSync(config.configFile)) {
-            log(
-              `🗑️ Application with repo "${config.repo}" seems to be deleted. Removing from config...`
-            )
-            const branchName = `bot/remove-${repoName || config.repo}`.replace(
-              /\//g,
-              '-'
-            )
-            const prTitle = `chore: remove deleted application ${displayName}`
+      await runGit(inputs.dryRun, ['checkout', inputs.baseBranch])
+    }
+    return {}
+  }
 
-            if (config.dryRun) {
-              log(`💻 git checkout -B ${branchName}`)
+  const hash = createHash('sha1')
+    .update(updates.map((u) => `${u.name}@${u.detail}`).join('\n'))
+    .digest('hex')
+    .slice(0, 8)
+  const branchName = `${group.branch}-${hash}`
+  const prTitle =
+    updates.length === 1
+      ? updates[0].title
+      : `chore: update ${group.name} (${updates.map((u) => u.name).join(', ')})`
+  const labels = updates
+    .flatMap((u) => u.labels)
+    .filter((l, i, all) => all.findIndex((o) => o.name === l.name) === i)
+  const draft = updates.some((u) => u.draft)
+  const autoMergeReason = updates.every((u) => u.autoMergeReason)
+    ? updates.map((u) => `${u.name}: ${u.autoMergeReason}`).join('; ')
+    : undefined
+
+  log(
+    `🧺 Opening one pull request for ${updates.length} update(s) in group "${group.name}"`
+  )
+  if (inputs.commitMode === 'api') {
+    await commitGroupThroughApi(group, branchName, inputs)
+  } else {
+    await runGit(inputs.dryRun, ['checkout', '-B', branchName])
+    await runGit(inputs.dryRun, ['push', 'origin', branchName, '--force'])
+  }
+  if (inputs.dryRun) {
+    log(`💻 open pull request "${prTitle}"`)
+    if (autoMergeReason) {
+      log(
+        `💻 auto-merge (${inputs.autoMerge?.mergeMethod ?? 'squash'}) because ${autoMergeReason}`
+      )
+    }
+    if (inputs.commitMode !== 'api') {
+      log(`💻 git checkout ${inputs.baseBranch}`)
+    }
+    return { branch: branchName }
+  }
+
+  const changeRequests = createChangeRequestProvider(inputs)
+  // Only this group's branches: a prefix would also match groups whose names
+  // start with this one's followed by a dash
+  await changeRequests.closeOutdatedChangeRequests(
+    new RegExp(`^${group.branch.replace(/\./g, '\\.')}-[0-9a-f]{8}$`),
+    branchName
+  )
+  const prNumber = await changeRequests.createOrUpdateChangeRequest(
+    prTitle,
+    branchName,
+    inputs.baseBranch,
+    generateGroupPrBody(group.name, updates),
+    labels,
+    draft
+  )
+  if (autoMergeReason) {
+    await changeRequests.enableAutoMerge(
+      prNumber,
+      inputs.autoMerge?.mergeMethod,
+      autoMergeReason
+    )
+  }
+  if (inputs.commitMode !== 'api') {
+    await exec.exec('git', ['checkout', inputs.baseBranch])
+  }
+  return {
+    branch: branchName,
+    prNumber,
+    prUrl: changeRequests.changeRequestUrl(prNumber)
+  }
+}
+
+// Replays the members' commits onto the group branch through the API and
+// puts the working tree back as it was
+async function commitGroupThroughApi(
+  group: ApplicationGroup,
+  branchName: string,
+  inputs: AppConfig
+): Promise<void> {
+  if (inputs.dryRun) {
+    for (const update of group.updates) {
+      log(`💻 commit "${update.title}" to ${branchName} through the API`)
+    }
+    return
+  }
+
+  const changeRequests = createChangeRequestProvider(inputs)
+  try {
+    let parent: string | undefined
+    for (const update of group.updates) {
+      parent = await changeRequests.commitFiles(
+        branchName,
+        inputs.baseBranch,
+        update.title,
+        update.files || [],
+        parent
+      )
+    }
+  } finally {
+    restoreFiles(group.originals)
+  }
+}
+
+/**
+ * Checks one application for updates and proposes them. Members of a group
+ * only commit onto the group's branch; publishGroup opens the pull request.
+ */
+export async function processApplication(
+  config: AppConfig,
+  group?: ApplicationGroup
+): Promise<ApplicationResult> {
+  const scheme = getVersionScheme(config.versioning)
+
+  // Registry images may include a host and nested namespaces
+  // (e.g. ghcr.io/owner/app), so the display name is always the last segment.
+  const repoSegments = config.repo.split('/')
+  const [owner, repoName] =
+    config.source === 'helmrepo'
+      ? [null, config.chart]
+      : config.repo.includes('/')
+        ? [repoSegments[0], repoSegments[repoSegments.length - 1]]
+        : [null, config.repo]
+
+  const displayName = repoName || config.repo
+
+  // Only GitHub sources need a GitHub token, so the client is created lazily
+  let gh: GitHubService | undefined
+  const ghService = () => (gh ??= new GitHubService(config.githubToken))
+  const dhService = new DockerHubService()
+  const registryService = new RegistryService(config.registryCredentials)
+  const helmRepoService = new HelmRepoService()
+  const helmOciService = new HelmOciService(registryService)
+  const gitlabService = new GitLabService(
+    config.sourceConfig?.baseURL,
+    config.sourceConfig?.token
+  )
+  const giteaService = new GiteaService(
+    config.sourceConfig?.baseURL,
+    config.sourceConfig?.token
+  )
+  const aiService = new OpenAIService(config.openaiConfig)
+
+  log(`🪄 Processing application "${displayName}"`)
+
+  let latestRelease: Release | undefined
+  let releases: Release[]
+  const heldBack: HeldBackRelease[] = []
+
+  let currentVerRaw = ''
+  if (config.type === 'manual') {
+    currentVerRaw = config.version || ''
+  } else {
+    try {
+      const firstTarget = config.targets[0]
+      if (!firstTarget) throw new Error('No targets defined for application')
+      currentVerRaw = getYamlValue(firstTarget.file, firstTarget.path) || ''
+      if (config.type === 'kubernetes') {
+        currentVerRaw = parseImageReference(currentVerRaw).tag ?? ''
+      }
+    } catch (e: unknown) {
+      if (
+        e instanceof Error &&
+        (e.message.includes('File not found') || e.message.includes('ENOENT'))
+      ) {
+        log(`⚠️ Target file not found for "${displayName}".`)
+        if (config.local) {
+          log(`⚠️ Skipping auto-removal for local runs.`)
+        } else if (fs.existsSync(config.configFile)) {
+          log(
+            `🗑️ Application with repo "${config.repo}" seems to be deleted. Removing from config...`
+          )
+          const branchName = `bot/remove-${repoName || config.repo}`.replace(
+            /\//g,
+            '-'
+          )
+          const prTitle = `chore: remove deleted application ${displayName}`
+
+          if (config.dryRun) {
+            if (config.commitMode === 'api') {
+              removeApplicationFromConfig(config.configFile, config.repo, true)
+              log(`💻 commit "${prTitle}" to ${branchName} through the API`)
+            } else {
+              log(
+                `💻 git checkout -B ${branchName} origin/${config.baseBranch}`
+              )
               removeApplicationFromConfig(config.configFile, config.repo, true)
               log(`💻 git add ${config.configFile}`)
               log(`💻 git commit -m "${prTitle}"`)
               log(`💻 git push origin ${branchName} --force`)
+            }
+          } else {
+            const changeRequests = createChangeRequestProvider(config)
+            if (config.commitMode === 'api') {
+              const snapshot = readFiles([config.configFile])
+              try {
+                removeApplicationFromConfig(
+                  config.configFile,
+                  config.repo,
+                  false
+                )
+                await changeRequests.commitFiles(
+                  branchName,
+                  config.baseBranch,
+                  prTitle,
+                  changesSince(snapshot)
+                )
+              } finally {
+                restoreFiles(snapshot)
+              }
             } else {
               await exec.exec('git', [
                 'config',
@@ -120,359 +783,681 @@ export async function run(): Promise<void> {
                 'user.email',
                 config.gitUserEmail
               ])
-              await exec.exec('git', ['checkout', '-B', branchName])
+              await exec.exec('git', [
+                'checkout',
+                '-B',
+                branchName,
+                `origin/${config.baseBranch}`
+              ])
               removeApplicationFromConfig(config.configFile, config.repo, false)
               await exec.exec('git', ['add', config.configFile])
               await exec.exec('git', ['commit', '-m', prTitle])
               await exec.exec('git', ['push', 'origin', branchName, '--force'])
+            }
 
-              const [contextOwner, contextRepo] =
-                process.env.GITHUB_REPOSITORY!.split('/')
-              await ghService.createOrUpdatePullRequest(
-                contextOwner,
-                contextRepo,
-                prTitle,
-                branchName,
-                'main',
-                `The application **${displayName}** was tracked in the configuration but its target files are missing. This PR removes it from the tracking configuration.`,
-                [{ name: 'cleanup', color: 'cccccc' }]
-              )
+            await changeRequests.createOrUpdateChangeRequest(
+              prTitle,
+              branchName,
+              config.baseBranch,
+              `The application **${displayName}** was tracked in the configuration but its target files are missing. This PR removes it from the tracking configuration.`,
+              [{ name: 'cleanup', color: 'cccccc' }]
+            )
+            if (config.commitMode !== 'api') {
+              await exec.exec('git', [
+                'checkout',
+                group?.branch ?? config.baseBranch
+              ])
             }
-            return
-          } else {
-            log(`⚠️ ${config.configFile} not found. Skipping auto-removal.`)
           }
+          return { name: displayName, status: 'removed' }
+        } else {
+          log(`⚠️ ${config.configFile} not found. Skipping auto-removal.`)
         }
-        throw e
       }
+      throw e
     }
+  }
 
-    if (config.source === 'dockerhub') {
-      latestRelease = await dhService.fetchLatestTag(
-        config.repo,
-        currentVerRaw,
-        config.maxReleases
-      )
-    } else {
-      if (!owner || !repoName)
-        throw new Error(`Invalid repo format for GitHub source: ${config.repo}`)
+  if (config.source === 'dockerhub') {
+    releases = await dhService.fetchAllTags(
+      config.repo,
+      currentVerRaw,
+      config.maxReleases
+    )
+  } else if (config.source === 'registry') {
+    releases = await registryService.fetchAllTags(config.repo, currentVerRaw)
+  } else if (config.source === 'helmrepo') {
+    if (!config.chart)
+      throw new Error(`A chart name is required for helmrepo source`)
+    releases = await helmRepoService.fetchChartReleases(
+      config.repo,
+      config.chart
+    )
+  } else if (config.source === 'helmoci') {
+    releases = await helmOciService.fetchChartReleases(
+      config.repo,
+      currentVerRaw,
+      config.maxReleases
+    )
+  } else if (config.source === 'github-tags') {
+    if (!owner || !repoName)
+      throw new Error(`Invalid repo format for GitHub source: ${config.repo}`)
 
-      releases = await ghService.fetchAllReleases(
-        owner,
-        repoName,
-        currentVerRaw,
-        config.maxReleases
-      )
+    releases = await ghService().fetchAllTags(owner, repoName, currentVerRaw)
+  } else if (config.source === 'gitlab') {
+    if (!owner || !repoName)
+      throw new Error(`Invalid repo format for GitLab source: ${config.repo}`)
+
+    releases = await gitlabService.fetchAllReleases(
+      config.repo,
+      currentVerRaw,
+      config.maxReleases
+    )
+  } else if (config.source === 'gitea') {
+    if (!owner || !repoName)
+      throw new Error(`Invalid repo format for Gitea source: ${config.repo}`)
+
+    releases = await giteaService.fetchAllReleases(
+      owner,
+      repoName,
+      currentVerRaw,
+      config.maxReleases
+    )
+  } else {
+    if (!owner || !repoName)
+      throw new Error(`Invalid repo format for GitHub source: ${config.repo}`)
+
+    releases = await ghService().fetchAllReleases(
+      owner,
+      repoName,
+      currentVerRaw,
+      config.maxReleases
+    )
+  }
+
+  // Drop tags the versioning scheme can't parse, then sort so the truly
+  // "latest" version is first
+  releases = releases.filter((r) => scheme.isValid(r.tag_name))
+  releases.sort((a, b) => scheme.compare(b.tag_name, a.tag_name))
+
+  // Stay on the same image variant (e.g. -alpine) as the deployed tag, or on
+  // plain tags when it has none
+  const flavor = scheme.tagFlavors ? getTagFlavor(currentVerRaw) : ''
+  if (scheme.tagFlavors) {
+    releases = filterByFlavor(releases, flavor)
+    if (flavor) log(`🏷️  Only considering "${flavor}" tags`)
+  }
 
-      // Sort releases semantically to ensure the truly "latest" version is first
-      releases.sort((a, b) => compareVersions(b.tag_name, a.tag_name))
+  // Filter out prereleases unless configured otherwise or current is a prerelease
+  // This should happen BEFORE version lag so that lag is calculated relative to the allowed track
+  const currentIsPrerelease = scheme.isPrerelease(currentVerRaw, flavor)
+  if (!config.includePrereleases && !currentIsPrerelease) {
+    releases = releases.filter((r) => !scheme.isPrerelease(r.tag_name, flavor))
+  }
 
-      // Filter out prereleases unless configured otherwise or current is a prerelease
-      // This should happen BEFORE version lag so that lag is calculated relative to the allowed track
-      const currentIsPrerelease = isPrerelease(currentVerRaw)
-      if (!config.includePrereleases && !currentIsPrerelease) {
-        releases = releases.filter((r) => !isPrerelease(r.tag_name))
+  if (config.allowedVersions) {
+    const range = config.allowedVersions
+    const newest = releases[0]
+    if (currentVerRaw && !satisfiesRange(currentVerRaw, range, scheme)) {
+      log(
+        `🚧 The deployed ${currentVerRaw} is outside the allowed range "${range}", older releases are not proposed`
+      )
+    }
+    releases = releases.filter((r) => satisfiesRange(r.tag_name, range, scheme))
+    if (
+      newest &&
+      newest !== releases[0] &&
+      scheme.compare(newest.tag_name, currentVerRaw) > 0
+    ) {
+      log(
+        `🚧 ${newest.tag_name} is available but outside the allowed range "${range}"`
+      )
+      heldBack.push({
+        tag_name: newest.tag_name,
+        html_url: newest.html_url,
+        reason: `outside the allowed range \`${range}\``
+      })
+    }
+  }
+
+  // Known-bad versions are dropped before lag so they never become targets
+  if (config.ignoreVersions?.length) {
+    const patterns = config.ignoreVersions
+    releases = releases.filter((r) => {
+      const pattern = patterns.find((p) =>
+        matchesVersionPattern(r.tag_name, p, scheme)
+      )
+      if (!pattern) return true
+      if (scheme.compare(r.tag_name, currentVerRaw) > 0) {
+        log(`🙈 Ignoring ${r.tag_name} (matches "${pattern}")`)
+        heldBack.push({
+          tag_name: r.tag_name,
+          html_url: r.html_url,
+          reason: `ignored by \`${pattern}\``
+        })
       }
+      return false
+    })
+  }
 
-      // Apply version lag if configured
-      if (config.versionLag > 0) {
-        const originalCount = releases.length
-        releases = applyVersionLag(
-          releases,
-          config.versionLag,
-          config.versionLagDepth
-        )
-        if (releases.length < originalCount) {
-          const sliceEnd =
-            config.versionLagDepth === 'major'
-              ? 1
-              : config.versionLagDepth === 'minor'
-                ? 2
-                : 3
-
-          const targetGroup = normalizeVersion(releases[0].tag_name)
-            .split('.')
-            .slice(0, sliceEnd)
-            .join('.')
+  // Tag dates cost a request each, so only the newer tags left after the
+  // filters above are looked up
+  if (config.source === 'github-tags' && config.minimumReleaseAge) {
+    await ghService().enrichTags(
+      owner!,
+      repoName!,
+      releases
+        .filter((r) => scheme.compare(r.tag_name, currentVerRaw) > 0)
+        .slice(0, config.maxReleases)
+    )
+  }
+
+  // Give fresh releases time to collect hotfixes. Releases without a
+  // publish date (e.g. registry tags) can't be judged, so they are held back
+  // unless allowUndatedReleases is set. Only newer releases are checked: the
+  // deployed one may itself be recent (Docker Hub dates change on re-push)
+  // and dropping it would turn an older release into the target.
+  if (config.minimumReleaseAge) {
+    const minimumAge = parseDuration(config.minimumReleaseAge)
+    const now = Date.now()
+    let nextEligible: Date | undefined
+    releases = releases.filter((r) => {
+      if (scheme.compare(r.tag_name, currentVerRaw) <= 0) return true
+      const published = Date.parse(r.published_at)
+      if (isNaN(published)) {
+        if (config.allowUndatedReleases) {
           log(
-            `⏳ Version lag is active. Skipping ${config.versionLag} ${config.versionLagDepth} version(s). Target version group is ${targetGroup}.x`
+            `⚠️ ${r.tag_name} has no publish date, proposing it despite minimum_release_age`
           )
+          return true
         }
-      }
-
-      if (config.releaseFilter) {
-        const filtered = releases.find(
-          (r) =>
-            r.tag_name.includes(config.releaseFilter!) ||
-            (r.name && r.name.includes(config.releaseFilter!))
+        log(
+          `🧊 ${r.tag_name} has no publish date, so its age can't be checked against ${config.minimumReleaseAge}`
         )
-        if (!filtered)
-          throw new Error(
-            `No release found matching filter: ${config.releaseFilter}`
-          )
-        latestRelease = filtered
-      } else {
-        latestRelease = releases[0]
+        heldBack.push({
+          tag_name: r.tag_name,
+          html_url: r.html_url,
+          reason: `no publish date to check the ${config.minimumReleaseAge} cooldown against`
+        })
+        return false
       }
+      if (now - published >= minimumAge) return true
+      const eligible = new Date(published + minimumAge)
+      if (!nextEligible || eligible < nextEligible) nextEligible = eligible
+      log(
+        `🧊 ${r.tag_name} is younger than ${config.minimumReleaseAge}, eligible on ${eligible.toISOString()}`
+      )
+      heldBack.push({
+        tag_name: r.tag_name,
+        html_url: r.html_url,
+        reason: `released less than ${config.minimumReleaseAge} ago, eligible on ${eligible.toISOString()}`
+      })
+      return false
+    })
+    if (nextEligible && !config.local) {
+      core.setOutput('next_eligible_at', nextEligible.toISOString())
     }
+  }
 
-    if (!latestRelease) {
-      log(`✅ "${displayName}" is already up to date or no releases found.`)
-      return
+  // Apply version lag if configured
+  if (config.versionLag > 0) {
+    const originalCount = releases.length
+    releases = applyVersionLag(
+      releases,
+      config.versionLag,
+      config.versionLagDepth,
+      scheme
+    )
+    if (releases.length < originalCount) {
+      const sliceEnd =
+        config.versionLagDepth === 'major'
+          ? 1
+          : config.versionLagDepth === 'minor'
+            ? 2
+            : 3
+
+      const targetGroup = scheme
+        .getParts(releases[0].tag_name)
+        .slice(0, sliceEnd)
+        .join('.')
+      log(
+        `⏳ Version lag is active. Skipping ${config.versionLag} ${config.versionLagDepth} version(s). Target version group is ${targetGroup}.x`
+      )
+    }
+  }
+
+  if (config.releaseFilter) {
+    const filtered = releases.find(
+      (r) =>
+        r.tag_name.includes(config.releaseFilter!) ||
+        (r.name && r.name.includes(config.releaseFilter!))
+    )
+    if (!filtered)
+      throw new Error(
+        `No release found matching filter: ${config.releaseFilter}`
+      )
+    latestRelease = filtered
+  } else {
+    latestRelease = releases[0]
+  }
+
+  if (!latestRelease) {
+    log(`✅ "${displayName}" is already up to date or no releases found.`)
+    return { name: displayName, status: 'up-to-date' }
+  }
+
+  // Filters can drop the deployed version itself (e.g. ignored or outside
+  // the allowed range); only version lag may select an older release
+  if (
+    !config.versionLag &&
+    currentVerRaw &&
+    scheme.compare(latestRelease.tag_name, currentVerRaw) < 0
+  ) {
+    log(
+      `✅ "${displayName}" stays on ${currentVerRaw}, the newest eligible release ${latestRelease.tag_name} is older`
+    )
+    return {
+      name: displayName,
+      status: 'up-to-date',
+      detail: currentVerRaw,
+      currentVersion: scheme.normalize(currentVerRaw),
+      heldBack
     }
+  }
+
+  const latestVerNormalized = scheme.normalize(latestRelease.tag_name)
+  const updatesNeeded: PendingUpdate[] = []
 
-    const latestVerNormalized = normalizeVersion(latestRelease.tag_name)
-    const updatesNeeded: {
-      target?: Target
-      currentVerRaw: string
-      targetVersion: string
-      isManual?: boolean
-    }[] = []
+  const currentVersionFrom = scheme.normalize(currentVerRaw)
 
-    const currentVersionFrom = normalizeVersion(currentVerRaw)
+  if (config.type === 'manual') {
+    if (
+      latestVerNormalized &&
+      currentVersionFrom &&
+      latestVerNormalized !== currentVersionFrom
+    ) {
+      const targetVersion =
+        currentVerRaw.startsWith('v') && !latestVerNormalized.startsWith('v')
+          ? `v${latestVerNormalized}`
+          : latestVerNormalized
+      updatesNeeded.push({
+        currentVerRaw,
+        targetVersion,
+        isManual: true
+      })
+    }
+  } else {
+    for (const target of config.targets) {
+      const rawValue = getYamlValue(target.file, target.path) || ''
+      const image =
+        config.type === 'kubernetes' ? parseImageReference(rawValue) : null
+      if (image && image.tag === undefined) {
+        log(
+          `⏭️  ${target.file} -> ${target.path}: image "${rawValue}" has no tag, skipping`
+        )
+        continue
+      }
+      const pinnedDigest = image?.digest
+      const tCurrentVerRaw = image?.tag ?? rawValue
 
-    if (config.type === 'manual') {
+      const tCurrentVerNormalized = scheme.normalize(tCurrentVerRaw)
       if (
         latestVerNormalized &&
-        currentVersionFrom &&
-        latestVerNormalized !== currentVersionFrom
+        tCurrentVerNormalized &&
+        latestVerNormalized !== tCurrentVerNormalized
       ) {
         const targetVersion =
-          currentVerRaw.startsWith('v') && !latestVerNormalized.startsWith('v')
+          tCurrentVerRaw.startsWith('v') && !latestVerNormalized.startsWith('v')
             ? `v${latestVerNormalized}`
             : latestVerNormalized
+
+        // Pinned images get the digest of the new tag written alongside it
+        const digest = pinnedDigest
+          ? await registryService.fetchDigest(
+              getImageName(image!),
+              targetVersion
+            )
+          : undefined
+
         updatesNeeded.push({
-          currentVerRaw,
+          target,
+          currentVerRaw: tCurrentVerRaw,
           targetVersion,
-          isManual: true
+          digest
         })
-      }
-    } else {
-      for (const target of config.targets) {
-        let tCurrentVerRaw = getYamlValue(target.file, target.path) || ''
-        if (config.type === 'kubernetes' && tCurrentVerRaw.includes(':')) {
-          tCurrentVerRaw = tCurrentVerRaw.split(':')[1]
-        }
-
-        const tCurrentVerNormalized = normalizeVersion(tCurrentVerRaw)
-        if (
-          latestVerNormalized &&
-          tCurrentVerNormalized &&
-          latestVerNormalized !== tCurrentVerNormalized
-        ) {
-          const targetVersion =
-            tCurrentVerRaw.startsWith('v') &&
-            !latestVerNormalized.startsWith('v')
-              ? `v${latestVerNormalized}`
-              : latestVerNormalized
-
+      } else if (pinnedDigest && tCurrentVerRaw) {
+        // The tag is current, but it may have been re-pushed since pinning
+        const digest = await registryService.fetchDigest(
+          getImageName(image!),
+          tCurrentVerRaw
+        )
+        if (digest !== pinnedDigest) {
+          log(
+            `📌 ${target.file} -> ${target.path}: digest for ${tCurrentVerRaw} changed to ${digest}`
+          )
           updatesNeeded.push({
             target,
             currentVerRaw: tCurrentVerRaw,
-            targetVersion
+            targetVersion: tCurrentVerRaw,
+            digest
           })
         }
       }
     }
+  }
 
-    if (updatesNeeded.length === 0) {
-      log(
-        `✅ "${displayName}" is already up to date (${latestRelease.tag_name})`
-      )
-      return
+  if (updatesNeeded.length === 0) {
+    log(`✅ "${displayName}" is already up to date (${latestRelease.tag_name})`)
+    return {
+      name: displayName,
+      status: 'up-to-date',
+      detail: latestRelease.tag_name,
+      currentVersion: currentVersionFrom,
+      heldBack
     }
+  }
 
-    log(
-      `💡 Latest version is ${latestRelease.tag_name} (${latestVerNormalized})`
+  log(`💡 Latest version is ${latestRelease.tag_name} (${latestVerNormalized})`)
+
+  const bumpType = getBumpType(
+    updatesNeeded[0].currentVerRaw,
+    updatesNeeded[0].targetVersion,
+    scheme
+  )
+  const updateAction = config.updatePolicy?.[bumpType] ?? 'pr'
+  const result: ApplicationResult = {
+    name: displayName,
+    status: 'updated',
+    detail: `${currentVersionFrom} → ${latestVerNormalized}`,
+    currentVersion: currentVersionFrom,
+    newVersion: latestVerNormalized,
+    bumpType,
+    heldBack
+  }
+  log(`📐 This is a ${bumpType} update, policy: ${updateAction}`)
+  if (updateAction === 'skip') {
+    log(`⏭️  Skipping ${bumpType} updates for "${displayName}" by policy.`)
+    return { ...result, status: 'skipped' }
+  }
+
+  // Get all releases that are part of this update
+  const currentVerRawForReleases = updatesNeeded[0].currentVerRaw
+  const relevantReleases = getRelevantReleases(
+    releases,
+    currentVerRawForReleases,
+    config.maxReleases,
+    scheme
+  )
+  if (config.source === 'github-tags') {
+    await ghService().enrichTags(
+      owner!,
+      repoName!,
+      relevantReleases,
+      config.tagNotes
     )
+  }
 
-    // Get all releases that are part of this update
-    const currentVerRawForReleases = updatesNeeded[0].currentVerRaw
-    const sourceReleases =
-      config.source === 'dockerhub' ? [latestRelease] : releases
-    const relevantReleases = getRelevantReleases(
-      sourceReleases,
+  let aiAssessment = null
+  if (config.openaiConfig?.apiKey && relevantReleases.length > 0) {
+    aiAssessment = await aiService.analyzeRisks(
+      displayName,
       currentVerRawForReleases,
-      config.maxReleases
+      relevantReleases,
+      config.openaiConfig.model!,
+      config.maxReleases,
+      config.description,
+      config.openaiConfig.maxNoteLength
     )
+  } else if (relevantReleases.length > 0) {
+    log('⚠️ AI analysis skipped: OPENAI_API_KEY is not configured.')
+  }
+  result.risk = aiAssessment?.overallRisk
+  result.worryFree = aiAssessment?.overallWorryFree
+  result.aiAssessment = aiAssessment ?? undefined
 
-    let aiAssessment = null
-    if (config.openaiConfig?.apiKey && relevantReleases.length > 0) {
-      aiAssessment = await aiService.analyzeRisks(
-        displayName,
-        currentVerRawForReleases,
-        relevantReleases,
-        config.openaiConfig.model!,
-        config.maxReleases,
-        config.description,
-        config.openaiConfig.maxNoteLength
-      )
-    } else if (relevantReleases.length > 0) {
-      log('⚠️ AI analysis skipped: OPENAI_API_KEY is not configured.')
-    }
+  log(
+    `🚀 Updating ${displayName} (${config.repo}): ${updatesNeeded.length} target(s) need updates`
+  )
 
+  if (aiAssessment) {
     log(
-      `🚀 Updating ${displayName} (${config.repo}): ${updatesNeeded.length} target(s) need updates`
+      `📊 AI Overall Risk: [${formatRisk(aiAssessment.overallRisk)}] ${aiAssessment.overallWorryFree ? '✅ Worry-free' : '⚠️ Proceed with caution'}`
     )
-
-    if (aiAssessment) {
+    for (const rel of aiAssessment.releases) {
+      const dateStr = rel.published_at
+        ? new Date(rel.published_at).toLocaleDateString()
+        : 'unknown date'
       log(
-        `📊 AI Overall Risk: [${formatRisk(aiAssessment.overallRisk)}] ${aiAssessment.overallWorryFree ? '✅ Worry-free' : '⚠️ Proceed with caution'}`
+        `   - ${rel.tag_name} (${dateStr}): [${formatRisk(rel.risk)}] ${rel.summary}`
       )
-      for (const rel of aiAssessment.releases) {
-        const dateStr = rel.published_at
-          ? new Date(rel.published_at).toLocaleDateString()
-          : 'unknown date'
-        log(
-          `   - ${rel.tag_name} (${dateStr}): [${formatRisk(rel.risk)}] ${rel.summary}`
-        )
-        if (rel.risk !== 'None' && rel.recommendations) {
-          log(`     💡 Recommendation: ${rel.recommendations}`)
-        }
-      }
-    } else {
-      log(`📦 Found ${relevantReleases.length} release(s) to apply.`)
-      for (const rel of relevantReleases) {
-        const dateStr = rel.published_at
-          ? new Date(rel.published_at).toLocaleDateString()
-          : 'unknown date'
-        log(`   - ${rel.tag_name} (${dateStr})`)
+      if (rel.risk !== 'None' && rel.recommendations) {
+        log(`     💡 Recommendation: ${rel.recommendations}`)
       }
     }
+  } else {
+    log(`📦 Found ${relevantReleases.length} release(s) to apply.`)
+    for (const rel of relevantReleases) {
+      const dateStr = rel.published_at
+        ? new Date(rel.published_at).toLocaleDateString()
+        : 'unknown date'
+      log(`   - ${rel.tag_name} (${dateStr})`)
+    }
+  }
 
-    const branchName =
-      `bot/update-${repoName || config.repo}-${latestVerNormalized}`.replace(
-        /\//g,
-        '-'
-      )
+  const branchName =
+    `bot/update-${repoName || config.repo}-${latestVerNormalized}`.replace(
+      /\//g,
+      '-'
+    )
+
+  const digestRefreshOnly = updatesNeeded.every(
+    (u) => u.targetVersion === u.currentVerRaw
+  )
+  const prTitle = digestRefreshOnly
+    ? `chore: refresh ${displayName} ${latestVerNormalized} digest`
+    : `chore: update ${displayName} from ${currentVersionFrom} to ${latestVerNormalized}`
+
+  const labels: { name: string; color: string }[] = []
+  if (aiAssessment) {
+    const riskColors: Record<string, string> = {
+      None: '0e8a16',
+      Low: 'fbca04',
+      Medium: 'e99695',
+      High: 'd93f0b'
+    }
+    labels.push({
+      name: `Risk: ${aiAssessment.overallRisk}`,
+      color: riskColors[aiAssessment.overallRisk] || 'cccccc'
+    })
+    if (aiAssessment.overallWorryFree) {
+      labels.push({ name: 'Worry-free', color: 'c2e0c6' })
+    }
+  }
+  for (const name of config.labels || []) {
+    labels.push({ name, color: 'ededed' })
+  }
+
+  let autoMergeReason: string | undefined
+  if (updateAction === 'automerge') {
+    autoMergeReason = `the update policy auto-merges ${bumpType} updates`
+  } else if (
+    updateAction === 'pr' &&
+    config.autoMerge?.enabled &&
+    aiAssessment?.overallWorryFree &&
+    isRiskAtOrBelow(aiAssessment.overallRisk, config.autoMerge.maxRisk)
+  ) {
+    autoMergeReason = `the AI assessment rated it worry-free with ${aiAssessment.overallRisk} risk (threshold: ${config.autoMerge.maxRisk})`
+  }
 
-    const prTitle = `chore: update ${displayName} from ${currentVersionFrom} to ${latestVerNormalized}`
+  // Local runs only touch the working tree, whatever the policy
+  if (config.local) {
+    await applyUpdates(config, displayName, updatesNeeded)
+    return result
+  }
 
+  // Tracking issues replace the PR, so nothing is written or pushed
+  if (updateAction === 'issue') {
+    const issueBody = generatePrBody(
+      displayName,
+      aiAssessment,
+      relevantReleases,
+      getLogBuffer(),
+      heldBack
+    )
     if (config.dryRun) {
+      log(`💻 open tracking issue "${prTitle}"`)
+      log(`\n👏 All checks completed.`)
+      return { ...result, status: 'issue' }
+    }
+    const changeRequests = createChangeRequestProvider(config)
+    await changeRequests.createOrUpdateIssue(prTitle, issueBody, labels)
+    await changeRequests.closeOutdatedIssues(
+      `chore: update ${displayName} from `,
+      prTitle
+    )
+    return { ...result, status: 'issue' }
+  }
+
+  result.changes = updatesNeeded.map((u) => ({
+    file: u.isManual ? config.configFile : u.target!.file,
+    path: u.isManual ? 'version' : u.target!.path,
+    from: u.currentVerRaw,
+    to: u.targetVersion
+  }))
+
+  if (group) {
+    let files: FileChange[] | undefined
+    if (config.commitMode === 'api' && !config.dryRun) {
+      // Kept in the working tree for the next member; publishGroup commits
+      // and then restores the originals
+      const before = readFiles(updatedFilePaths(config, updatesNeeded))
+      for (const [file, contents] of before) {
+        if (!group.originals.has(file)) group.originals.set(file, contents)
+      }
+      try {
+        await applyUpdates(config, displayName, updatesNeeded)
+      } catch (error: unknown) {
+        restoreFiles(before)
+        throw error
+      }
+      files = changesSince(before)
+    } else {
+      await applyUpdates(config, displayName, updatesNeeded)
+      if (config.commitMode !== 'api') {
+        await runGit(config.dryRun, ['commit', '-m', prTitle])
+      }
+    }
+    group.updates.push({
+      name: displayName,
+      title: prTitle,
+      detail: result.detail!,
+      aiAssessment,
+      releases: relevantReleases,
+      heldBack,
+      logs: getLogBuffer(),
+      labels,
+      draft: updateAction === 'draft',
+      autoMergeReason,
+      files
+    })
+    return result
+  }
+
+  result.branch = branchName
+  if (config.dryRun) {
+    if (config.commitMode === 'api') {
+      await applyUpdates(config, displayName, updatesNeeded)
+      log(`💻 commit "${prTitle}" to ${branchName} through the API`)
+    } else {
       log(`💻 git config user.name "${config.gitUserName}"`)
       log(`💻 git config user.email "${config.gitUserEmail}"`)
-      log(`💻 git checkout -B ${branchName}`)
-      for (const update of updatesNeeded) {
-        if (update.isManual) {
-          log(
-            `   - ${config.configFile} -> ${displayName}: ${update.currentVerRaw} -> ${update.targetVersion}`
-          )
-          updateConfigVersion(
-            config.configFile,
-            config.repo,
-            update.targetVersion,
-            true
-          )
-          log(`💻 git add ${config.configFile}`)
-        } else if (update.target) {
-          log(
-            `   - ${update.target.file} -> ${update.target.path}: ${update.currentVerRaw} -> ${update.targetVersion}`
-          )
-          setYamlValue(
-            update.target.file,
-            update.target.path,
-            update.targetVersion,
-            config.type as 'kubernetes' | 'helm',
-            true
-          )
-          log(`💻 git add ${update.target.file}`)
-        }
-      }
+      log(`💻 git checkout -B ${branchName} origin/${config.baseBranch}`)
+      await applyUpdates(config, displayName, updatesNeeded)
       log(`💻 git commit -m "${prTitle}"`)
       log(`💻 git push origin ${branchName} --force`)
-      log(`💻 git checkout main`)
-      log(`\n👏 All checks completed.`)
-      return
     }
+    if (autoMergeReason) {
+      log(
+        `💻 auto-merge (${config.autoMerge?.mergeMethod ?? 'squash'}) because ${autoMergeReason}`
+      )
+    }
+    if (config.commitMode !== 'api') {
+      log(`💻 git checkout ${config.baseBranch}`)
+    }
+    log(`\n👏 All checks completed.`)
+    return result
+  }
 
+  const changeRequests = createChangeRequestProvider(config)
+  if (config.commitMode === 'api') {
+    // The files are changed only long enough to read them back; the commit
+    // is built from their contents on the remote branch
+    const before = readFiles(updatedFilePaths(config, updatesNeeded))
+    try {
+      await applyUpdates(config, displayName, updatesNeeded)
+      await changeRequests.commitFiles(
+        branchName,
+        config.baseBranch,
+        prTitle,
+        changesSince(before)
+      )
+    } finally {
+      restoreFiles(before)
+    }
+  } else {
     // Git Operations
     // -B will create the branch if it doesn't exist, or reset it if it does
     await exec.exec('git', ['config', 'user.name', config.gitUserName])
     await exec.exec('git', ['config', 'user.email', config.gitUserEmail])
-    await exec.exec('git', ['checkout', '-B', branchName])
-
-    for (const update of updatesNeeded) {
-      if (update.isManual) {
-        log(
-          `   - ${config.configFile} -> ${displayName}: ${update.currentVerRaw} -> ${update.targetVersion}`
-        )
-        updateConfigVersion(
-          config.configFile,
-          config.repo,
-          update.targetVersion,
-          false
-        )
-        await exec.exec('git', ['add', config.configFile])
-      } else if (update.target) {
-        log(
-          `   - ${update.target.file} -> ${update.target.path}: ${update.currentVerRaw} -> ${update.targetVersion}`
-        )
-        setYamlValue(
-          update.target.file,
-          update.target.path,
-          update.targetVersion,
-          config.type as 'kubernetes' | 'helm',
-          false
-        )
-        await exec.exec('git', ['add', update.target.file])
-      }
-    }
+    await exec.exec('git', [
+      'checkout',
+      '-B',
+      branchName,
+      `origin/${config.baseBranch}`
+    ])
+    await applyUpdates(config, displayName, updatesNeeded)
 
     await exec.exec('git', ['commit', '-m', prTitle])
     await exec.exec('git', ['push', 'origin', branchName, '--force'])
+  }
 
-    // PR Creation
-    const prBody = generatePrBody(
-      displayName,
-      aiAssessment,
-      relevantReleases,
-      getLogBuffer()
-    )
+  // PR Creation
+  const prBody = generatePrBody(
+    displayName,
+    aiAssessment,
+    relevantReleases,
+    getLogBuffer(),
+    heldBack
+  )
 
-    const [contextOwner, contextRepo] =
-      process.env.GITHUB_REPOSITORY!.split('/')
+  const branchPrefix = `bot/update-${repoName || config.repo}-`.replace(
+    /\//g,
+    '-'
+  )
 
-    const branchPrefix = `bot/update-${repoName || config.repo}-`.replace(
-      /\//g,
-      '-'
-    )
-
-    await ghService.closeOutdatedPullRequests(
-      contextOwner,
-      contextRepo,
-      branchPrefix,
-      branchName
-    )
+  await changeRequests.closeOutdatedChangeRequests(branchPrefix, branchName)
 
-    const labels: { name: string; color: string }[] = []
-    if (aiAssessment) {
-      const riskColors: Record<string, string> = {
-        None: '0e8a16',
-        Low: 'fbca04',
-        Medium: 'e99695',
-        High: 'd93f0b'
-      }
-      labels.push({
-        name: `Risk: ${aiAssessment.overallRisk}`,
-        color: riskColors[aiAssessment.overallRisk] || 'cccccc'
-      })
-      if (aiAssessment.overallWorryFree) {
-        labels.push({ name: 'Worry-free', color: 'c2e0c6' })
-      }
-    }
+  const prNumber = await changeRequests.createOrUpdateChangeRequest(
+    prTitle,
+    branchName,
+    config.baseBranch,
+    prBody,
+    labels,
+    updateAction === 'draft'
+  )
+  result.prNumber = prNumber
+  result.prUrl = changeRequests.changeRequestUrl(prNumber)
 
-    await ghService.createOrUpdatePullRequest(
-      contextOwner,
-      contextRepo,
-      prTitle,
-      branchName,
-      'main',
-      prBody,
-      labels
+  if (autoMergeReason) {
+    await changeRequests.enableAutoMerge(
+      prNumber,
+      config.autoMerge?.mergeMethod,
+      autoMergeReason
     )
+  }
 
-    await exec.exec('git', ['checkout', 'main'])
-  } catch (error: unknown) {
-    core.setFailed(error instanceof Error ? error.message : 'Unknown error')
+  if (config.commitMode !== 'api') {
+    await exec.exec('git', ['checkout', config.baseBranch])
   }
+  return result
 }
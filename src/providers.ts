@@ -0,0 +1,381 @@
+import { AppConfig, FileChange } from './types.js'
+import { GitHubService, GitLabService, GiteaService } from './services.js'
+
+type Labels = { name: string; color: string }[]
+type MergeMethod = 'merge' | 'squash' | 'rebase'
+
+/**
+ * The platform hosting the repository being updated: GitHub pull requests,
+ * GitLab merge requests or Gitea pull requests, bound to one repository.
+ */
+export interface ChangeRequestProvider {
+  getDefaultBranch(): Promise<string>
+  // Opens a change request from head into base, or updates the open one
+  createOrUpdateChangeRequest(
+    title: string,
+    head: string,
+    base: string,
+    body: string,
+    labels?: Labels,
+    draft?: boolean
+  ): Promise<number>
+  changeRequestUrl(number: number): string
+  createOrUpdateIssue(
+    title: string,
+    body: string,
+    labels?: Labels
+  ): Promise<number>
+  // Closes open issues whose title starts with the prefix
+  closeOutdatedIssues(titlePrefix: string, currentTitle: string): Promise<void>
+  // Closes open change requests whose branch starts with the prefix, or
+  // matches the pattern
+  closeOutdatedChangeRequests(
+    branchPattern: string | RegExp,
+    currentBranch: string
+  ): Promise<void>
+  enableAutoMerge(
+    number: number,
+    mergeMethod?: MergeMethod,
+    reason?: string
+  ): Promise<boolean>
+  // SHA of the branch's latest commit in the repository
+  getBranchHead(branch: string): Promise<string>
+  // Commits through the API onto branch, resetting it to base first unless a
+  // parent commit is given. Returns the new commit's SHA.
+  commitFiles(
+    branch: string,
+    base: string,
+    message: string,
+    files: FileChange[],
+    parent?: string
+  ): Promise<string>
+}
+
+function unsupportedApiCommits(provider: string): Promise<string> {
+  return Promise.reject(
+    new Error(
+      `commit_mode "api" is only supported for the github provider, not ${provider}`
+    )
+  )
+}
+
+function splitRepository(repository: string): [string, string] {
+  const slash = repository.indexOf('/')
+  if (slash === -1) {
+    throw new Error(`Invalid repository "${repository}", expected owner/repo`)
+  }
+  return [repository.slice(0, slash), repository.slice(slash + 1)]
+}
+
+class GitHubProvider implements ChangeRequestProvider {
+  private owner: string
+  private repo: string
+
+  constructor(
+    private service: GitHubService,
+    repository: string
+  ) {
+    ;[this.owner, this.repo] = splitRepository(repository)
+  }
+
+  getDefaultBranch() {
+    return this.service.getDefaultBranch(this.owner, this.repo)
+  }
+
+  createOrUpdateChangeRequest(
+    title: string,
+    head: string,
+    base: string,
+    body: string,
+    labels?: Labels,
+    draft?: boolean
+  ) {
+    return this.service.createOrUpdatePullRequest(
+      this.owner,
+      this.repo,
+      title,
+      head,
+      base,
+      body,
+      labels,
+      draft
+    )
+  }
+
+  changeRequestUrl(number: number) {
+    const server = process.env.GITHUB_SERVER_URL || 'https://github.com'
+    return `${server}/${this.owner}/${this.repo}/pull/${number}`
+  }
+
+  createOrUpdateIssue(title: string, body: string, labels?: Labels) {
+    return this.service.createOrUpdateIssue(
+      this.owner,
+      this.repo,
+      title,
+      body,
+      labels
+    )
+  }
+
+  closeOutdatedIssues(titlePrefix: string, currentTitle: string) {
+    return this.service.closeOutdatedIssues(
+      this.owner,
+      this.repo,
+      titlePrefix,
+      currentTitle
+    )
+  }
+
+  closeOutdatedChangeRequests(
+    branchPattern: string | RegExp,
+    currentBranch: string
+  ) {
+    return this.service.closeOutdatedPullRequests(
+      this.owner,
+      this.repo,
+      branchPattern,
+      currentBranch
+    )
+  }
+
+  enableAutoMerge(number: number, mergeMethod?: MergeMethod, reason?: string) {
+    return this.service.enableAutoMerge(
+      this.owner,
+      this.repo,
+      number,
+      mergeMethod,
+      reason
+    )
+  }
+
+  getBranchHead(branch: string) {
+    return this.service.getBranchHead(this.owner, this.repo, branch)
+  }
+
+  commitFiles(
+    branch: string,
+    base: string,
+    message: string,
+    files: FileChange[],
+    parent?: string
+  ) {
+    return this.service.commitFiles(
+      this.owner,
+      this.repo,
+      branch,
+      base,
+      message,
+      files,
+      parent
+    )
+  }
+}
+
+class GitLabProvider implements ChangeRequestProvider {
+  constructor(
+    private service: GitLabService,
+    private project: string
+  ) {}
+
+  getDefaultBranch() {
+    return this.service.getDefaultBranch(this.project)
+  }
+
+  createOrUpdateChangeRequest(
+    title: string,
+    head: string,
+    base: string,
+    body: string,
+    labels?: Labels,
+    draft?: boolean
+  ) {
+    return this.service.createOrUpdateMergeRequest(
+      this.project,
+      title,
+      head,
+      base,
+      body,
+      labels,
+      draft
+    )
+  }
+
+  changeRequestUrl(number: number) {
+    return `${this.service.baseURL}/${this.project}/-/merge_requests/${number}`
+  }
+
+  createOrUpdateIssue(title: string, body: string, labels?: Labels) {
+    return this.service.createOrUpdateIssue(this.project, title, body, labels)
+  }
+
+  closeOutdatedIssues(titlePrefix: string, currentTitle: string) {
+    return this.service.closeOutdatedIssues(
+      this.project,
+      titlePrefix,
+      currentTitle
+    )
+  }
+
+  closeOutdatedChangeRequests(
+    branchPattern: string | RegExp,
+    currentBranch: string
+  ) {
+    return this.service.closeOutdatedMergeRequests(
+      this.project,
+      branchPattern,
+      currentBranch
+    )
+  }
+
+  enableAutoMerge(number: number, mergeMethod?: MergeMethod, reason?: string) {
+    return this.service.enableAutoMerge(
+      this.project,
+      number,
+      mergeMethod,
+      reason
+    )
+  }
+
+  getBranchHead() {
+    return unsupportedApiCommits('gitlab')
+  }
+
+  commitFiles() {
+    return unsupportedApiCommits('gitlab')
+  }
+}
+
+class GiteaProvider implements ChangeRequestProvider {
+  private owner: string
+  private repo: string
+
+  constructor(
+    private service: GiteaService,
+    repository: string
+  ) {
+    ;[this.owner, this.repo] = splitRepository(repository)
+  }
+
+  getDefaultBranch() {
+    return this.service.getDefaultBranch(this.owner, this.repo)
+  }
+
+  createOrUpdateChangeRequest(
+    title: string,
+    head: string,
+    base: string,
+    body: string,
+    labels?: Labels,
+    draft?: boolean
+  ) {
+    return this.service.createOrUpdatePullRequest(
+      this.owner,
+      this.repo,
+      title,
+      head,
+      base,
+      body,
+      labels,
+      draft
+    )
+  }
+
+  changeRequestUrl(number: number) {
+    return `${this.service.baseURL}/${this.owner}/${this.repo}/pulls/${number}`
+  }
+
+  createOrUpdateIssue(title: string, body: string, labels?: Labels) {
+    return this.service.createOrUpdateIssue(
+      this.owner,
+      this.repo,
+      title,
+      body,
+      labels
+    )
+  }
+
+  closeOutdatedIssues(titlePrefix: string, currentTitle: string) {
+    return this.service.closeOutdatedIssues(
+      this.owner,
+      this.repo,
+      titlePrefix,
+      currentTitle
+    )
+  }
+
+  closeOutdatedChangeRequests(
+    branchPattern: string | RegExp,
+    currentBranch: string
+  ) {
+    return this.service.closeOutdatedPullRequests(
+      this.owner,
+      this.repo,
+      branchPattern,
+      currentBranch
+    )
+  }
+
+  enableAutoMerge(number: number, mergeMethod?: MergeMethod, reason?: string) {
+    return this.service.enableAutoMerge(
+      this.owner,
+      this.repo,
+      number,
+      mergeMethod,
+      reason
+    )
+  }
+
+  getBranchHead() {
+    return unsupportedApiCommits('gitea')
+  }
+
+  commitFiles() {
+    return unsupportedApiCommits('gitea')
+  }
+}
+
+/**
+ * Creates the provider for the repository being updated. The repository and
+ * URL fall back to what GitHub/Gitea Actions (GITHUB_REPOSITORY,
+ * GITHUB_SERVER_URL) or GitLab CI (CI_PROJECT_PATH, CI_SERVER_URL) provide.
+ */
+export function createChangeRequestProvider(
+  config: AppConfig
+): ChangeRequestProvider {
+  const type = config.provider?.type || 'github'
+  const env = process.env
+  const repository =
+    config.provider?.repository ||
+    (type === 'gitlab' ? env.CI_PROJECT_PATH : env.GITHUB_REPOSITORY)
+  if (!repository) {
+    throw new Error(
+      `No repository to open change requests in: set the repository input for the ${type} provider`
+    )
+  }
+
+  const token = config.provider?.token
+  switch (type) {
+    case 'gitlab':
+      return new GitLabProvider(
+        new GitLabService(config.provider?.baseURL || env.CI_SERVER_URL, token),
+        repository
+      )
+    case 'gitea':
+      return new GiteaProvider(
+        new GiteaService(
+          config.provider?.baseURL || env.GITHUB_SERVER_URL,
+          token
+        ),
+        repository
+      )
+    case 'github':
+      return new GitHubProvider(
+        new GitHubService(token || config.githubToken),
+        repository
+      )
+    default:
+      throw new Error(
+        `Unknown provider "${type}". Expected one of: github, gitlab, gitea`
+      )
+  }
+}
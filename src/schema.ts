@@ -0,0 +1,282 @@
+export interface JsonSchema {
+  $schema?: string
+  title?: string
+  description?: string
+  type?: string | string[]
+  enum?: (string | number | boolean)[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  minItems?: number
+  minimum?: number
+}
+
+export interface ValidationError {
+  // Location in the document, e.g. ['applications', 2, 'targets', 0]
+  path: (string | number)[]
+  message: string
+}
+
+const TARGET_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    file: { type: 'string', description: 'YAML file to update.' },
+    path: {
+      type: 'string',
+      description:
+        'Dot-separated path to the value, e.g. spec.source.targetRevision.'
+    }
+  },
+  required: ['file', 'path'],
+  additionalProperties: false
+}
+
+export const TARGETS_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: TARGET_SCHEMA,
+  minItems: 1
+}
+
+const UPDATE_ACTION_SCHEMA: JsonSchema = {
+  type: 'string',
+  enum: ['pr', 'draft', 'issue', 'automerge', 'skip']
+}
+
+export const UPDATE_POLICY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    major: UPDATE_ACTION_SCHEMA,
+    minor: UPDATE_ACTION_SCHEMA,
+    patch: UPDATE_ACTION_SCHEMA
+  },
+  additionalProperties: false
+}
+
+const EXTENDS_SCHEMA: JsonSchema = {
+  type: ['string', 'array'],
+  items: { type: 'string' },
+  description: 'Preset name(s) to inherit from, applied in order.'
+}
+
+// Everything an application can set that may also come from defaults or a
+// preset
+const SHARED_PROPERTIES: Record<string, JsonSchema> = {
+  type: { type: 'string', enum: ['kubernetes', 'helm', 'manual'] },
+  source: {
+    type: 'string',
+    enum: [
+      'github',
+      'github-tags',
+      'gitlab',
+      'gitea',
+      'dockerhub',
+      'registry',
+      'helmrepo',
+      'helmoci'
+    ]
+  },
+  chart: { type: 'string', description: 'Chart name (helmrepo only).' },
+  tagNotes: { type: 'string', enum: ['none', 'message', 'compare'] },
+  sourceBaseUrl: {
+    type: 'string',
+    description: 'Base URL of the gitlab/gitea source, e.g. a self-hosted one.'
+  },
+  sourceTokenEnv: {
+    type: 'string',
+    description: 'Environment variable holding the gitlab/gitea source token.'
+  },
+  targets: TARGETS_SCHEMA,
+  file: { type: 'string', description: 'Shorthand for a single target.' },
+  path: { type: 'string', description: 'Shorthand for a single target.' },
+  version: {
+    type: ['string', 'number'],
+    description: 'Current version (manual only).'
+  },
+  description: { type: 'string' },
+  releaseFilter: { type: 'string' },
+  allowedVersions: { type: 'string', description: 'e.g. ">=2.3 <3".' },
+  ignoreVersions: {
+    type: ['string', 'array'],
+    items: { type: 'string' },
+    description: 'Exact versions, ranges or /regexes/ to skip.'
+  },
+  minimumReleaseAge: { type: 'string', description: 'e.g. "3d".' },
+  allowUndatedReleases: {
+    type: 'boolean',
+    description: 'Keep releases without a publish date despite the cooldown.'
+  },
+  updatePolicy: UPDATE_POLICY_SCHEMA,
+  versioning: {
+    type: 'string',
+    description: 'semver, loose, calver, docker or regex:<pattern>.'
+  },
+  versionLag: { type: 'integer', minimum: 0 },
+  versionLagDepth: { type: 'string', enum: ['major', 'minor', 'patch'] },
+  includePrereleases: { type: 'boolean' },
+  maxReleases: { type: 'integer', minimum: 1 },
+  labels: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Extra labels for the pull request.'
+  },
+  openaiModel: { type: 'string' },
+  openaiBaseUrl: { type: 'string' },
+  openaiMaxNoteLength: { type: 'integer', minimum: 1 },
+  group: {
+    type: 'string',
+    description: 'Applications in the same group share one pull request.'
+  }
+}
+
+const PRESET_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { ...SHARED_PROPERTIES, extends: EXTENDS_SCHEMA },
+  additionalProperties: false
+}
+
+const APPLICATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Display name for logs.' },
+    repo: {
+      type: 'string',
+      description: 'Upstream repository, image or chart repository URL.'
+    },
+    ...SHARED_PROPERTIES,
+    extends: EXTENDS_SCHEMA
+  },
+  required: ['repo'],
+  additionalProperties: false
+}
+
+export const CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'versions-config.yaml',
+  type: 'object',
+  properties: {
+    defaults: {
+      type: 'object',
+      properties: SHARED_PROPERTIES,
+      additionalProperties: false,
+      description: 'Settings applied to every application.'
+    },
+    presets: {
+      type: 'object',
+      properties: {},
+      additionalProperties: PRESET_SCHEMA,
+      description: 'Named settings that applications can extend.'
+    },
+    applications: { type: 'array', items: APPLICATION_SCHEMA }
+  },
+  required: ['applications'],
+  additionalProperties: false
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer'
+  return typeof value
+}
+
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0]
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j]
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        prev + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      prev = current
+    }
+  }
+  return row[b.length]
+}
+
+function suggest(key: string, known: string[]): string {
+  const match =
+    known.find((k) => k.toLowerCase() === key.toLowerCase()) ??
+    known.find((k) => distance(k, key) <= 2)
+  return match ? ` (did you mean "${match}"?)` : ''
+}
+
+/**
+ * Validates a value against the subset of JSON Schema used by this action.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: (string | number)[] = []
+): ValidationError[] {
+  const actual = typeOf(value)
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    const matches = types.some(
+      (t) => t === actual || (t === 'number' && actual === 'integer')
+    )
+    if (!matches) {
+      return [{ path, message: `must be ${types.join(' or ')}, got ${actual}` }]
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [{ path, message: `must be one of ${schema.enum.join(', ')}` }]
+  }
+  if (schema.minimum !== undefined && (value as number) < schema.minimum) {
+    return [{ path, message: `must be at least ${schema.minimum}` }]
+  }
+
+  const errors: ValidationError[] = []
+  if (actual === 'array') {
+    const items = value as unknown[]
+    if (schema.minItems !== undefined && items.length < schema.minItems) {
+      errors.push({
+        path,
+        message: `must have at least ${schema.minItems} item(s)`
+      })
+    }
+    if (schema.items) {
+      items.forEach((item, i) =>
+        errors.push(...validateSchema(item, schema.items!, [...path, i]))
+      )
+    }
+  }
+
+  if (actual === 'object' && schema.properties) {
+    const object = value as Record<string, unknown>
+    const known = Object.keys(schema.properties)
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        errors.push({ path, message: `"${key}" is required` })
+      }
+    }
+    for (const [key, child] of Object.entries(object)) {
+      const childSchema =
+        schema.properties[key] ??
+        (typeof schema.additionalProperties === 'object'
+          ? schema.additionalProperties
+          : undefined)
+      if (childSchema) {
+        errors.push(...validateSchema(child, childSchema, [...path, key]))
+      } else if (schema.additionalProperties === false) {
+        errors.push({
+          path: [...path, key],
+          message: `unknown property "${key}"${suggest(key, known)}`
+        })
+      }
+    }
+  }
+
+  return errors
+}
+
+export function formatSchemaPath(path: (string | number)[]): string {
+  return path
+    .map((p, i) => (typeof p === 'number' ? `[${p}]` : i > 0 ? `.${p}` : p))
+    .join('')
+}
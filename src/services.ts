@@ -1,13 +1,45 @@
 import * as github from '@actions/github'
 import https from 'https'
+import { createHash } from 'crypto'
+import * as yaml from 'js-yaml'
+import { IncomingHttpHeaders } from 'http'
 import { OpenAI as OpenAIClient } from 'openai'
-import { AppConfig, Release, RiskAssessment, AggregateRisk } from './types.js'
+import {
+  AppConfig,
+  Release,
+  RiskAssessment,
+  AggregateRisk,
+  FileChange
+} from './types.js'
 import { log, normalizeVersion, compareVersions } from './utils.js'
+import {
+  parseImageReference,
+  resolveRegistryRepository
+} from './image-reference.js'
+
+// A string pattern is a branch prefix, a RegExp has to match the branch name
+function isOutdatedBranch(
+  branch: string,
+  branchPattern: string | RegExp,
+  currentBranch: string
+): boolean {
+  const matches =
+    typeof branchPattern === 'string'
+      ? branch.startsWith(branchPattern)
+      : branchPattern.test(branch)
+  return matches && branch !== currentBranch
+}
 
 export class GitHubService {
   private octokit: ReturnType<typeof github.getOctokit>
+  // Commit and preceding tag of each release listed by fetchAllTags
+  private tagDetails = new WeakMap<
+    Release,
+    { sha: string; previous?: string; notesFetched?: boolean }
+  >()
 
   constructor(token: string) {
+    if (!token) throw new Error('Input required and not supplied: github_token')
     this.octokit = github.getOctokit(token)
   }
 
@@ -63,6 +95,134 @@ export class GitHubService {
     return allReleases
   }
 
+  /**
+   * Lists version tags newest first. They carry no dates or notes yet: each
+   * costs a request per tag, so enrichTags fills them in later for the
+   * releases that survive filtering.
+   */
+  async fetchAllTags(
+    owner: string,
+    repo: string,
+    currentVersion: string
+  ): Promise<Release[]> {
+    // Tags are not returned in version order, so we can't stop at the current
+    // version. Fetch up to 10 pages (1000 tags) as a safety limit.
+    const MAX_PAGES = 10
+
+    let allTags: { name: string; sha: string }[] = []
+    log(
+      `☎️  Fetching tags for ${owner}/${repo} until ${currentVersion || 'latest'}...`
+    )
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      log(
+        `☎️  Calling github GET https://api.github.com/repos/${owner}/${repo}/tags?page=${page}&per_page=100`
+      )
+      const { data: tags } = await this.octokit.rest.repos.listTags({
+        owner,
+        repo,
+        page,
+        per_page: 100
+      })
+
+      if (!tags || tags.length === 0) break
+      allTags = allTags.concat(
+        tags.map((t) => ({ name: t.name, sha: t.commit.sha }))
+      )
+      if (tags.length < 100) break
+    }
+
+    const versionTags = allTags
+      .filter((t) => /\d+\.\d+/.test(normalizeVersion(t.name)))
+      .sort((a, b) => compareVersions(b.name, a.name))
+
+    return versionTags.map((tag, i) => {
+      const release: Release = {
+        tag_name: tag.name,
+        html_url: `https://github.com/${owner}/${repo}/tree/${tag.name}`,
+        published_at: ''
+      }
+      this.tagDetails.set(release, {
+        sha: tag.sha,
+        previous: versionTags[i + 1]?.name
+      })
+      return release
+    })
+  }
+
+  /**
+   * Fills in the commit date and, if asked for, the notes of releases from
+   * fetchAllTags. Releases that already have them are left alone.
+   */
+  async enrichTags(
+    owner: string,
+    repo: string,
+    releases: Release[],
+    notes: 'none' | 'message' | 'compare' = 'none'
+  ): Promise<void> {
+    for (const release of releases) {
+      const details = this.tagDetails.get(release)
+      if (!details) continue
+
+      if (!release.published_at) {
+        const { data: commit } = await this.octokit.rest.repos.getCommit({
+          owner,
+          repo,
+          ref: details.sha
+        })
+        release.published_at =
+          commit.commit.committer?.date || commit.commit.author?.date || ''
+      }
+
+      if (notes === 'none' || details.notesFetched) continue
+      details.notesFetched = true
+      if (notes === 'message') {
+        release.body = await this.fetchTagMessage(owner, repo, release.tag_name)
+      } else if (details.previous) {
+        const basehead = `${details.previous}...${release.tag_name}`
+        log(`☎️  Comparing ${basehead}`)
+        const { data: comparison } =
+          await this.octokit.rest.repos.compareCommitsWithBasehead({
+            owner,
+            repo,
+            basehead
+          })
+        release.html_url = comparison.html_url
+        release.body = comparison.commits
+          .map(
+            (c) => `- ${c.commit.message.split('\n')[0]} (${c.sha.slice(0, 7)})`
+          )
+          .join('\n')
+      }
+    }
+  }
+
+  private async fetchTagMessage(
+    owner: string,
+    repo: string,
+    tag: string
+  ): Promise<string | undefined> {
+    const { data: ref } = await this.octokit.rest.git.getRef({
+      owner,
+      repo,
+      ref: `tags/${tag}`
+    })
+    // Lightweight tags point straight at a commit and carry no message
+    if (ref.object.type !== 'tag') return undefined
+
+    const { data: annotated } = await this.octokit.rest.git.getTag({
+      owner,
+      repo,
+      tag_sha: ref.object.sha
+    })
+    return annotated.message || undefined
+  }
+
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    const { data } = await this.octokit.rest.repos.get({ owner, repo })
+    return data.default_branch
+  }
+
   async createOrUpdatePullRequest(
     owner: string,
     repo: string,
@@ -70,8 +230,9 @@ export class GitHubService {
     head: string,
     base: string,
     body: string,
-    labels: { name: string; color: string }[] = []
-  ): Promise<void> {
+    labels: { name: string; color: string }[] = [],
+    draft: boolean = false
+  ): Promise<number> {
     // Check if PR already exists
     const { data: pullRequests } = await this.octokit.rest.pulls.list({
       owner,
@@ -101,11 +262,188 @@ export class GitHubService {
         title,
         head,
         base,
-        body
+        body,
+        draft
       })
       prNumber = newPr.number
     }
 
+    await this.ensureLabels(owner, repo, prNumber, labels)
+    return prNumber
+  }
+
+  /**
+   * Opens an issue, or updates the open issue with the same title, for
+   * updates that should be tracked rather than proposed as a PR.
+   */
+  async createOrUpdateIssue(
+    owner: string,
+    repo: string,
+    title: string,
+    body: string,
+    labels: { name: string; color: string }[] = []
+  ): Promise<number> {
+    const issues = await this.listOpenIssues(owner, repo)
+    const existing = issues.find((i) => i.title === title)
+
+    let issueNumber: number
+    if (existing) {
+      issueNumber = existing.number
+      log(`☎️  Updating existing issue #${issueNumber}: ${title}`)
+      await this.octokit.rest.issues.update({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        body
+      })
+    } else {
+      log(`☎️  Creating new issue: ${title}`)
+      const { data: issue } = await this.octokit.rest.issues.create({
+        owner,
+        repo,
+        title,
+        body
+      })
+      issueNumber = issue.number
+    }
+
+    await this.ensureLabels(owner, repo, issueNumber, labels)
+    return issueNumber
+  }
+
+  async closeOutdatedIssues(
+    owner: string,
+    repo: string,
+    titlePrefix: string,
+    currentTitle: string
+  ): Promise<void> {
+    log(`☎️  Checking for outdated issues with prefix: ${titlePrefix}`)
+    for (const issue of await this.listOpenIssues(owner, repo)) {
+      if (issue.title.startsWith(titlePrefix) && issue.title !== currentTitle) {
+        log(`☎️  Closing outdated issue #${issue.number}: ${issue.title}`)
+        await this.octokit.rest.issues.createComment({
+          owner,
+          repo,
+          issue_number: issue.number,
+          body: `Closing this issue because a newer version update is available: ${currentTitle}`
+        })
+        await this.octokit.rest.issues.update({
+          owner,
+          repo,
+          issue_number: issue.number,
+          state: 'closed'
+        })
+      }
+    }
+  }
+
+  // Every open issue, leaving out the pull requests the issues API includes
+  private async listOpenIssues(
+    owner: string,
+    repo: string
+  ): Promise<{ number: number; title: string }[]> {
+    const issues: { number: number; title: string }[] = []
+    for (let page = 1; ; page++) {
+      const { data } = await this.octokit.rest.issues.listForRepo({
+        owner,
+        repo,
+        state: 'open',
+        per_page: 100,
+        page
+      })
+      issues.push(...data.filter((i) => !i.pull_request))
+      if (data.length < 100) return issues
+    }
+  }
+
+  /**
+   * Enables GitHub auto-merge for a PR. If the repository doesn't allow it, or
+   * the PR is already mergeable so there is nothing to wait for, the PR is
+   * merged directly once its checks have passed. A comment records the reason
+   * whenever auto-merge is newly enabled or the PR is merged.
+   */
+  async enableAutoMerge(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    mergeMethod: 'merge' | 'squash' | 'rebase' = 'squash',
+    reason?: string
+  ): Promise<boolean> {
+    const { data: pr } = await this.octokit.rest.pulls.get({
+      owner,
+      repo,
+      pull_number: prNumber
+    })
+    if (pr.auto_merge) {
+      log(`✅ Auto-merge is already enabled for PR #${prNumber}`)
+      return true
+    }
+
+    let merged = false
+    try {
+      log(`☎️  Enabling auto-merge (${mergeMethod}) for PR #${prNumber}`)
+      await this.octokit.graphql(
+        `mutation($pullRequestId: ID!, $mergeMethod: PullRequestMergeMethod!) {
+          enablePullRequestAutoMerge(
+            input: { pullRequestId: $pullRequestId, mergeMethod: $mergeMethod }
+          ) {
+            clientMutationId
+          }
+        }`,
+        { pullRequestId: pr.node_id, mergeMethod: mergeMethod.toUpperCase() }
+      )
+    } catch (e: unknown) {
+      const message = e instanceof Error ? e.message : String(e)
+      // GitHub refuses auto-merge for PRs that can already be merged, and only
+      // works out mergeable_state some time after the PR is pushed, so the PR
+      // is read again rather than trusting the state from before the call
+      const { data: current } = await this.octokit.rest.pulls.get({
+        owner,
+        repo,
+        pull_number: prNumber
+      })
+      if (
+        !/clean status/i.test(message) &&
+        current.mergeable_state !== 'clean'
+      ) {
+        log(`⚠️ Could not enable auto-merge for PR #${prNumber}: ${message}`)
+        return false
+      }
+
+      try {
+        log(`☎️  Checks have passed, merging PR #${prNumber} directly`)
+        await this.octokit.rest.pulls.merge({
+          owner,
+          repo,
+          pull_number: prNumber,
+          merge_method: mergeMethod
+        })
+      } catch (mergeError: unknown) {
+        log(
+          `⚠️ Could not merge PR #${prNumber}: ${mergeError instanceof Error ? mergeError.message : mergeError}`
+        )
+        return false
+      }
+      merged = true
+    }
+
+    if (reason) {
+      await this.octokit.rest.issues.createComment({
+        owner,
+        repo,
+        issue_number: prNumber,
+        body: `🤖 ${merged ? 'Merged' : 'Auto-merge enabled'} (${mergeMethod}) because ${reason}.`
+      })
+    }
+    return true
+  }
+
+  private async ensureLabels(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    labels: { name: string; color: string }[]
+  ): Promise<void> {
     if (labels.length > 0) {
       log(`🏷️  Ensuring labels exist: ${labels.map((l) => l.name).join(', ')}`)
       for (const label of labels) {
@@ -126,11 +464,11 @@ export class GitHubService {
         }
       }
 
-      log(`☎️  Adding labels to PR #${prNumber}`)
+      log(`☎️  Adding labels to #${issueNumber}`)
       await this.octokit.rest.issues.addLabels({
         owner,
         repo,
-        issue_number: prNumber,
+        issue_number: issueNumber,
         labels: labels.map((l) => l.name)
       })
     }
@@ -139,10 +477,10 @@ export class GitHubService {
   async closeOutdatedPullRequests(
     owner: string,
     repo: string,
-    branchPrefix: string,
+    branchPattern: string | RegExp,
     currentBranch: string
   ): Promise<void> {
-    log(`☎️  Checking for outdated Pull Requests with prefix: ${branchPrefix}`)
+    log(`☎️  Checking for outdated Pull Requests matching: ${branchPattern}`)
     const { data: pullRequests } = await this.octokit.rest.pulls.list({
       owner,
       repo,
@@ -151,10 +489,7 @@ export class GitHubService {
     })
 
     for (const pr of pullRequests) {
-      if (
-        pr.head.ref.startsWith(branchPrefix) &&
-        pr.head.ref !== currentBranch
-      ) {
+      if (isOutdatedBranch(pr.head.ref, branchPattern, currentBranch)) {
         log(`☎️  Closing outdated Pull Request #${pr.number}: ${pr.title}`)
         await this.octokit.rest.issues.createComment({
           owner,
@@ -171,16 +506,98 @@ export class GitHubService {
       }
     }
   }
+
+  async getBranchHead(
+    owner: string,
+    repo: string,
+    branch: string
+  ): Promise<string> {
+    const { data: ref } = await this.octokit.rest.git.getRef({
+      owner,
+      repo,
+      ref: `heads/${branch}`
+    })
+    return ref.object.sha
+  }
+
+  /**
+   * Commits files with the createCommitOnBranch mutation, so GitHub signs the
+   * commit and marks it verified. Without a parent commit the branch is first
+   * reset to the head of base, like `git checkout -B` followed by a force push.
+   * Returns the new commit's SHA.
+   */
+  async commitFiles(
+    owner: string,
+    repo: string,
+    branch: string,
+    base: string,
+    message: string,
+    files: FileChange[],
+    parent?: string
+  ): Promise<string> {
+    let headOid = parent
+    if (!headOid) {
+      headOid = await this.getBranchHead(owner, repo, base)
+      try {
+        await this.octokit.rest.git.updateRef({
+          owner,
+          repo,
+          ref: `heads/${branch}`,
+          sha: headOid,
+          force: true
+        })
+      } catch {
+        log(`☎️  Creating branch ${branch} from ${base}`)
+        await this.octokit.rest.git.createRef({
+          owner,
+          repo,
+          ref: `refs/heads/${branch}`,
+          sha: headOid
+        })
+      }
+    }
+
+    log(`☎️  Committing ${files.length} file(s) to ${branch}: ${message}`)
+    const { createCommitOnBranch } = await this.octokit.graphql<{
+      createCommitOnBranch: { commit: { oid: string } }
+    }>(
+      `mutation($input: CreateCommitOnBranchInput!) {
+        createCommitOnBranch(input: $input) {
+          commit {
+            oid
+          }
+        }
+      }`,
+      {
+        input: {
+          branch: {
+            repositoryNameWithOwner: `${owner}/${repo}`,
+            branchName: branch
+          },
+          message: { headline: message },
+          expectedHeadOid: headOid,
+          fileChanges: {
+            additions: files.map((f) => ({
+              path: f.path,
+              contents: Buffer.from(f.contents).toString('base64')
+            }))
+          }
+        }
+      }
+    )
+    return createCommitOnBranch.commit.oid
+  }
 }
 
 export class DockerHubService {
-  async fetchLatestTag(
+  async fetchAllTags(
     repo: string,
     currentVersion?: string,
     maxReleases: number = 20
-  ): Promise<Release> {
-    const isOfficial = !repo.includes('/')
-    const fullRepo = isOfficial ? `library/${repo}` : repo
+  ): Promise<Release[]> {
+    const ref = parseImageReference(repo)
+    const isOfficial = !ref.namespace
+    const fullRepo = resolveRegistryRepository(ref).name
     const cur = currentVersion ? normalizeVersion(currentVersion) : null
 
     // Determine how many pages to fetch
@@ -229,9 +646,11 @@ export class DockerHubService {
     // Sort all gathered tags semantically
     allTags.sort((a, b) => compareVersions(b.tag_name, a.tag_name))
 
-    return allTags[0]
+    return allTags
   }
 
+  // Returns every tag on the page; the versioning scheme decides which ones
+  // are versions
   private fetchPage(url: string, repoName: string): Promise<Release[]> {
     return new Promise((resolve, reject) => {
       https
@@ -245,15 +664,13 @@ export class DockerHubService {
             }
             try {
               const json = JSON.parse(data)
-              const validTags = json.results
-                .filter((t: { name: string }) =>
-                  /^\d+\.\d+(\.\d+)?$/.test(t.name)
-                )
-                .map((t: { name: string; last_updated: string }) => ({
+              const validTags = json.results.map(
+                (t: { name: string; last_updated: string }) => ({
                   tag_name: t.name,
                   published_at: t.last_updated,
                   html_url: `https://hub.docker.com/_/${repoName}`
-                }))
+                })
+              )
               resolve(validTags)
             } catch (e) {
               reject(e)
@@ -265,6 +682,1054 @@ export class DockerHubService {
   }
 }
 
+interface HttpResponse {
+  statusCode: number
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+function httpGet(
+  url: string,
+  headers: Record<string, string> = {},
+  redirects = 5
+): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    https
+      .get(
+        url,
+        { headers: { 'User-Agent': 'version-bumper', ...headers } },
+        (res) => {
+          let data = ''
+          res.on('data', (c) => (data += c))
+          res.on('end', () => {
+            const location = res.headers?.location
+            if (
+              location &&
+              redirects > 0 &&
+              [301, 302, 303, 307, 308].includes(res.statusCode!)
+            ) {
+              // Don't leak credentials to a different host (e.g. blob storage)
+              const next = new URL(location, url)
+              const { Authorization, ...rest } = headers
+              const sameHost = next.host === new URL(url).host
+              return resolve(
+                httpGet(
+                  next.toString(),
+                  sameHost && Authorization ? headers : rest,
+                  redirects - 1
+                )
+              )
+            }
+            resolve({
+              statusCode: res.statusCode!,
+              headers: res.headers ?? {},
+              body: data
+            })
+          })
+        }
+      )
+      .on('error', reject)
+  })
+}
+
+// Sends a JSON request, used for the write APIs of GitLab and Gitea
+function httpSend(
+  method: string,
+  url: string,
+  headers: Record<string, string> = {},
+  body?: unknown
+): Promise<HttpResponse> {
+  const payload = body === undefined ? undefined : JSON.stringify(body)
+  return new Promise((resolve, reject) => {
+    const req = https.request(
+      url,
+      {
+        method,
+        headers: {
+          'User-Agent': 'version-bumper',
+          Accept: 'application/json',
+          ...(payload ? { 'Content-Type': 'application/json' } : {}),
+          ...headers
+        }
+      },
+      (res) => {
+        let data = ''
+        res.on('data', (c) => (data += c))
+        res.on('end', () =>
+          resolve({
+            statusCode: res.statusCode!,
+            headers: res.headers ?? {},
+            body: data
+          })
+        )
+      }
+    )
+    req.on('error', reject)
+    req.end(payload)
+  })
+}
+
+const MANIFEST_MEDIA_TYPES = [
+  'application/vnd.oci.image.index.v1+json',
+  'application/vnd.docker.distribution.manifest.list.v2+json',
+  'application/vnd.oci.image.manifest.v1+json',
+  'application/vnd.docker.distribution.manifest.v2+json'
+]
+
+const HELM_CHART_CONFIG_MEDIA_TYPE = 'application/vnd.cncf.helm.config.v1+json'
+
+interface OciManifest {
+  mediaType?: string
+  config?: { mediaType: string; digest: string }
+  annotations?: Record<string, string>
+}
+
+export class RegistryService {
+  private tokens = new Map<string, string>()
+
+  constructor(private credentials?: AppConfig['registryCredentials']) {}
+
+  async fetchAllTags(
+    repo: string,
+    currentVersion?: string
+  ): Promise<Release[]> {
+    const { host, name } = this.parseRepository(repo)
+    // The tags/list endpoint is ordered lexically rather than by date, so we
+    // can't stop at the current version. Fetch up to 20 pages (2000 tags) as a
+    // safety limit and let the caller sort them semantically.
+    const MAX_PAGES = 20
+
+    let allTags: string[] = []
+    log(
+      `☎️  Fetching tags for ${host}/${name} until ${currentVersion || 'latest'}...`
+    )
+
+    let url: string | null = `https://${host}/v2/${name}/tags/list?n=100`
+    for (let page = 1; page <= MAX_PAGES && url; page++) {
+      log(`☎️  Calling registry GET ${url}`)
+      const res = await this.request(url, host, name)
+      if (res.statusCode === 404) break
+      if (res.statusCode >= 400) {
+        throw new Error(
+          `Registry request failed (${res.statusCode}) for ${host}/${name}: ${res.body}`
+        )
+      }
+
+      const json = JSON.parse(res.body) as { tags?: string[] | null }
+      if (!json.tags || json.tags.length === 0) break
+      allTags = allTags.concat(json.tags)
+
+      url = this.nextPageUrl(host, res.headers.link)
+    }
+
+    // Every tag is returned; the versioning scheme decides which are versions
+    if (allTags.length === 0) {
+      throw new Error(`No tags found for ${host}/${name}`)
+    }
+
+    return allTags.map((tag) => ({
+      tag_name: tag,
+      html_url: `https://${host === 'registry-1.docker.io' ? 'hub.docker.com/r' : host}/${name}`,
+      published_at: ''
+    }))
+  }
+
+  async fetchManifest(
+    repo: string,
+    reference: string,
+    accept: string[] = MANIFEST_MEDIA_TYPES
+  ): Promise<{ digest: string; manifest: OciManifest }> {
+    const { host, name } = this.parseRepository(repo)
+    const url = `https://${host}/v2/${name}/manifests/${reference}`
+    log(`☎️  Calling registry GET ${url}`)
+
+    const res = await this.request(url, host, name, {
+      Accept: accept.join(', ')
+    })
+    if (res.statusCode >= 400) {
+      throw new Error(
+        `Failed to fetch manifest ${host}/${name}:${reference} (${res.statusCode}): ${res.body}`
+      )
+    }
+
+    // Not every registry returns the digest header, but the digest is always
+    // the hash of the manifest as served.
+    const header = res.headers['docker-content-digest']
+    const digest =
+      (Array.isArray(header) ? header[0] : header) ||
+      `sha256:${createHash('sha256').update(res.body).digest('hex')}`
+    return { digest, manifest: JSON.parse(res.body) as OciManifest }
+  }
+
+  async fetchDigest(repo: string, tag: string): Promise<string> {
+    log(`☎️  Resolving digest for ${repo}:${tag}`)
+    // Prefer the manifest list/index digest so the pin stays multi-arch
+    const { digest } = await this.fetchManifest(repo, tag)
+    return digest
+  }
+
+  async fetchBlob(repo: string, digest: string): Promise<string> {
+    const { host, name } = this.parseRepository(repo)
+    const url = `https://${host}/v2/${name}/blobs/${digest}`
+    log(`☎️  Calling registry GET ${url}`)
+
+    const res = await this.request(url, host, name)
+    if (res.statusCode >= 400) {
+      throw new Error(
+        `Failed to fetch blob ${host}/${name}@${digest} (${res.statusCode})`
+      )
+    }
+    return res.body
+  }
+
+  private parseRepository(repo: string): { host: string; name: string } {
+    return resolveRegistryRepository(
+      parseImageReference(repo.replace(/^[a-z]+:\/\//, ''))
+    )
+  }
+
+  private nextPageUrl(
+    host: string,
+    link: IncomingHttpHeaders['link']
+  ): string | null {
+    // Registries paginate with an RFC 5988 header such as:
+    // Link: </v2/name/tags/list?last=1.2.3&n=100>; rel="next"
+    const header = Array.isArray(link) ? link.join(', ') : link
+    const match = header?.match(/<([^>]+)>;\s*rel="?next"?/)
+    if (!match) return null
+    return match[1].startsWith('http') ? match[1] : `https://${host}${match[1]}`
+  }
+
+  // Credentials belong to one registry: they are only sent to that host and
+  // the token realm it names, never to other registries such as Docker Hub
+  private basicAuthFor(host: string): string | null {
+    const { host: registry, username, password } = this.credentials ?? {}
+    if (!registry || !username || !password) return null
+    // Either a bare host such as "ghcr.io" or an image reference on it
+    const reference = registry.replace(/^[a-z]+:\/\//, '')
+    const { host: registryHost } = this.parseRepository(
+      reference.includes('/') ? reference : `${reference}/_`
+    )
+    if (registryHost !== host) return null
+    return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`
+  }
+
+  private async request(
+    url: string,
+    host: string,
+    name: string,
+    headers: Record<string, string> = {}
+  ): Promise<HttpResponse> {
+    const key = `${host}/${name}`
+    const cached = this.tokens.get(key)
+    const res = await httpGet(
+      url,
+      cached ? { ...headers, Authorization: cached } : headers
+    )
+    if (res.statusCode !== 401) return res
+
+    const authorization = await this.authorize(
+      res.headers['www-authenticate'],
+      host,
+      name
+    )
+    if (!authorization) return res
+
+    this.tokens.set(key, authorization)
+    return httpGet(url, { ...headers, Authorization: authorization })
+  }
+
+  private async authorize(
+    challenge: string | undefined,
+    host: string,
+    name: string
+  ): Promise<string | null> {
+    const basic = this.basicAuthFor(host)
+
+    if (!challenge) return basic
+    if (/^basic/i.test(challenge)) return basic
+
+    // e.g. Bearer realm="https://ghcr.io/token",service="ghcr.io",scope="repository:owner/app:pull"
+    const params: Record<string, string> = {}
+    for (const [, key, value] of challenge.matchAll(/(\w+)="([^"]*)"/g)) {
+      params[key] = value
+    }
+    if (!params.realm) return basic
+
+    const query = new URLSearchParams()
+    if (params.service) query.set('service', params.service)
+    query.set('scope', params.scope || `repository:${name}:pull`)
+
+    const tokenUrl = `${params.realm}?${query.toString()}`
+    log(`🔑 Requesting registry token from ${params.realm}`)
+    const res = await httpGet(tokenUrl, basic ? { Authorization: basic } : {})
+    if (res.statusCode >= 400) {
+      throw new Error(
+        `Registry token request failed (${res.statusCode}): ${res.body}`
+      )
+    }
+
+    const json = JSON.parse(res.body) as {
+      token?: string
+      access_token?: string
+    }
+    const token = json.token || json.access_token
+    return token ? `Bearer ${token}` : basic
+  }
+}
+
+interface HelmIndexEntry {
+  version: string
+  appVersion?: string
+  // js-yaml parses unquoted timestamps into Date objects
+  created?: string | Date
+  description?: string
+  urls?: string[]
+}
+
+export class HelmRepoService {
+  async fetchChartReleases(repoUrl: string, chart: string): Promise<Release[]> {
+    const baseUrl = repoUrl.replace(/\/+$/, '')
+    const url = `${baseUrl}/index.yaml`
+    log(`☎️  Calling helm repository GET ${url}`)
+
+    const res = await httpGet(url)
+    if (res.statusCode >= 400) {
+      throw new Error(
+        `Failed to fetch helm repository index (${res.statusCode}): ${url}`
+      )
+    }
+
+    const index = yaml.load(res.body) as {
+      entries?: Record<string, HelmIndexEntry[]>
+    } | null
+    const entries = index?.entries?.[chart]
+    if (!entries || entries.length === 0) {
+      throw new Error(`Chart "${chart}" not found in ${url}`)
+    }
+
+    log(`✅ Found ${entries.length} version(s) of chart ${chart}`)
+
+    return entries.map((e) => {
+      const notes: string[] = []
+      if (e.description) notes.push(e.description)
+      if (e.appVersion) notes.push(`App version: ${e.appVersion}`)
+      return {
+        tag_name: String(e.version),
+        name: `${chart}-${e.version}`,
+        body: notes.length > 0 ? notes.join('\n\n') : undefined,
+        // Chart URLs may be relative to the repository
+        html_url: e.urls?.[0]
+          ? new URL(e.urls[0], `${baseUrl}/`).toString()
+          : baseUrl,
+        published_at: e.created ? new Date(e.created).toISOString() : ''
+      }
+    })
+  }
+}
+
+export class HelmOciService {
+  constructor(private registry: RegistryService) {}
+
+  async fetchChartReleases(
+    chartRef: string,
+    currentVersion: string,
+    maxReleases: number
+  ): Promise<Release[]> {
+    const repo = chartRef.replace(/^oci:\/\//, '')
+    const cur = normalizeVersion(currentVersion)
+    // Chart versions are semver by definition. Helm stores build metadata
+    // with "_" since "+" isn't valid in a tag; other tags (e.g. signatures)
+    // aren't charts.
+    const tags = (
+      await this.registry.fetchAllTags(repo, currentVersion)
+    ).filter((t) =>
+      /^v?\d+\.\d+(\.\d+)?(-[0-9A-Za-z.-]+)?([+_][0-9A-Za-z.-]+)?$/.test(
+        t.tag_name
+      )
+    )
+    if (tags.length === 0) {
+      throw new Error(`No chart versions found for ${repo}`)
+    }
+    tags.sort((a, b) => compareVersions(b.tag_name, a.tag_name))
+
+    // Only tags newer than the current version need their manifest inspected,
+    // everything older is kept as-is so lag and relevance checks still work.
+    const releases: Release[] = []
+    let inspected = 0
+    let reachedCurrent = false
+    for (const tag of tags) {
+      const version = tag.tag_name.replace('_', '+')
+      if (cur && normalizeVersion(version) === cur) reachedCurrent = true
+      if (reachedCurrent || inspected >= maxReleases) {
+        releases.push({ ...tag, tag_name: version })
+        continue
+      }
+
+      inspected++
+      const { manifest } = await this.registry.fetchManifest(
+        repo,
+        tag.tag_name,
+        ['application/vnd.oci.image.manifest.v1+json']
+      )
+      if (manifest.config?.mediaType !== HELM_CHART_CONFIG_MEDIA_TYPE) {
+        log(`⏭️  Skipping ${tag.tag_name}: not a helm chart artifact`)
+        continue
+      }
+
+      const chart = JSON.parse(
+        await this.registry.fetchBlob(repo, manifest.config.digest)
+      ) as {
+        description?: string
+        appVersion?: string
+        annotations?: Record<string, string>
+      }
+
+      releases.push({
+        tag_name: version,
+        name: chart.appVersion
+          ? `${version} (app ${chart.appVersion})`
+          : version,
+        body: this.formatNotes(chart),
+        html_url: tag.html_url,
+        published_at:
+          manifest.annotations?.['org.opencontainers.image.created'] || ''
+      })
+    }
+
+    return releases
+  }
+
+  private formatNotes(chart: {
+    description?: string
+    appVersion?: string
+    annotations?: Record<string, string>
+  }): string | undefined {
+    const notes: string[] = []
+    if (chart.description) notes.push(chart.description)
+    if (chart.appVersion) notes.push(`App version: ${chart.appVersion}`)
+
+    // Artifact Hub annotates changes as a YAML list of strings or
+    // { kind, description } objects.
+    const changes = chart.annotations?.['artifacthub.io/changes']
+    if (changes) {
+      try {
+        const list = yaml.load(changes) as (
+          | string
+          | { kind?: string; description?: string }
+        )[]
+        notes.push(
+          list
+            .map((c) =>
+              typeof c === 'string'
+                ? `- ${c}`
+                : `- ${c.kind ? `[${c.kind}] ` : ''}${c.description}`
+            )
+            .join('\n')
+        )
+      } catch {
+        notes.push(changes)
+      }
+    }
+
+    return notes.length > 0 ? notes.join('\n\n') : undefined
+  }
+}
+
+export class GitLabService {
+  readonly baseURL: string
+
+  constructor(
+    baseURL?: string,
+    private token?: string
+  ) {
+    this.baseURL = (baseURL || 'https://gitlab.com').replace(/\/+$/, '')
+  }
+
+  async fetchAllReleases(
+    project: string,
+    currentVersion: string,
+    maxReleases: number
+  ): Promise<Release[]> {
+    const cur = normalizeVersion(currentVersion)
+    const MAX_PAGES =
+      maxReleases === Infinity ? 20 : Math.ceil(maxReleases / 30) + 2
+    const maxLog = maxReleases === Infinity ? 'No Limit' : maxReleases
+
+    let allReleases: Release[] = []
+    log(
+      `☎️  Fetching releases for ${project} until ${currentVersion || 'latest'} (Max: ${maxLog})...`
+    )
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const url = `${this.baseURL}/api/v4/projects/${encodeURIComponent(project)}/releases?page=${page}&per_page=30`
+      log(`☎️  Calling gitlab GET ${url}`)
+      const res = await httpGet(
+        url,
+        this.token ? { 'PRIVATE-TOKEN': this.token } : {}
+      )
+      if (res.statusCode >= 400) {
+        throw new Error(
+          `GitLab request failed (${res.statusCode}) for ${project}: ${res.body}`
+        )
+      }
+
+      const releases = JSON.parse(res.body) as {
+        tag_name: string
+        name?: string | null
+        description?: string | null
+        released_at?: string
+        created_at: string
+        _links?: { self?: string }
+      }[]
+      if (!releases || releases.length === 0) break
+
+      allReleases = allReleases.concat(
+        releases.map((r) => ({
+          tag_name: r.tag_name,
+          name: r.name || undefined,
+          body: r.description || undefined,
+          html_url:
+            r._links?.self ||
+            `${this.baseURL}/${project}/-/releases/${encodeURIComponent(r.tag_name)}`,
+          published_at: r.released_at || r.created_at
+        }))
+      )
+
+      if (!cur) break
+      if (releases.find((r) => normalizeVersion(r.tag_name) === cur)) {
+        log(`✅ Found current version ${currentVersion} at page ${page}`)
+        break
+      }
+    }
+
+    return allReleases
+  }
+
+  private async api<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const res = await httpSend(
+      method,
+      `${this.baseURL}/api/v4${path}`,
+      this.token ? { 'PRIVATE-TOKEN': this.token } : {},
+      body
+    )
+    if (res.statusCode >= 400) {
+      throw new Error(
+        `GitLab request failed (${res.statusCode}) for ${method} ${path}: ${res.body}`
+      )
+    }
+    return (res.body ? JSON.parse(res.body) : undefined) as T
+  }
+
+  async getDefaultBranch(project: string): Promise<string> {
+    const { default_branch } = await this.api<{ default_branch: string }>(
+      'GET',
+      `/projects/${encodeURIComponent(project)}`
+    )
+    return default_branch
+  }
+
+  async createOrUpdateMergeRequest(
+    project: string,
+    title: string,
+    sourceBranch: string,
+    targetBranch: string,
+    description: string,
+    labels: { name: string; color: string }[] = [],
+    draft: boolean = false
+  ): Promise<number> {
+    const id = encodeURIComponent(project)
+    const existing = await this.api<{ iid: number }[]>(
+      'GET',
+      `/projects/${id}/merge_requests?state=opened&source_branch=${encodeURIComponent(sourceBranch)}&target_branch=${encodeURIComponent(targetBranch)}`
+    )
+    await this.ensureLabels(id, labels)
+    const labelNames = labels.map((l) => l.name).join(',')
+    // GitLab marks drafts by title
+    const fullTitle = draft ? `Draft: ${title}` : title
+
+    if (existing.length > 0) {
+      const iid = existing[0].iid
+      log(`☎️  Updating existing Merge Request !${iid}: ${title}`)
+      await this.api('PUT', `/projects/${id}/merge_requests/${iid}`, {
+        title: fullTitle,
+        description,
+        add_labels: labelNames
+      })
+      return iid
+    }
+
+    log(`☎️  Creating new Merge Request: ${title}`)
+    const mr = await this.api<{ iid: number }>(
+      'POST',
+      `/projects/${id}/merge_requests`,
+      {
+        source_branch: sourceBranch,
+        target_branch: targetBranch,
+        title: fullTitle,
+        description,
+        labels: labelNames
+      }
+    )
+    return mr.iid
+  }
+
+  async createOrUpdateIssue(
+    project: string,
+    title: string,
+    description: string,
+    labels: { name: string; color: string }[] = []
+  ): Promise<number> {
+    const id = encodeURIComponent(project)
+    const issues = await this.api<{ iid: number; title: string }[]>(
+      'GET',
+      `/projects/${id}/issues?state=opened&in=title&search=${encodeURIComponent(title)}&per_page=100`
+    )
+    await this.ensureLabels(id, labels)
+    const labelNames = labels.map((l) => l.name).join(',')
+    const existing = issues.find((i) => i.title === title)
+
+    if (existing) {
+      log(`☎️  Updating existing issue #${existing.iid}: ${title}`)
+      await this.api('PUT', `/projects/${id}/issues/${existing.iid}`, {
+        description,
+        add_labels: labelNames
+      })
+      return existing.iid
+    }
+
+    log(`☎️  Creating new issue: ${title}`)
+    const issue = await this.api<{ iid: number }>(
+      'POST',
+      `/projects/${id}/issues`,
+      { title, description, labels: labelNames }
+    )
+    return issue.iid
+  }
+
+  async closeOutdatedIssues(
+    project: string,
+    titlePrefix: string,
+    currentTitle: string
+  ): Promise<void> {
+    const id = encodeURIComponent(project)
+    log(`☎️  Checking for outdated issues with prefix: ${titlePrefix}`)
+    const issues = await this.api<{ iid: number; title: string }[]>(
+      'GET',
+      `/projects/${id}/issues?state=opened&in=title&search=${encodeURIComponent(titlePrefix)}&per_page=100`
+    )
+
+    for (const issue of issues) {
+      if (issue.title.startsWith(titlePrefix) && issue.title !== currentTitle) {
+        log(`☎️  Closing outdated issue #${issue.iid}: ${issue.title}`)
+        await this.api('POST', `/projects/${id}/issues/${issue.iid}/notes`, {
+          body: `Closing this issue because a newer version update is available: ${currentTitle}`
+        })
+        await this.api('PUT', `/projects/${id}/issues/${issue.iid}`, {
+          state_event: 'close'
+        })
+      }
+    }
+  }
+
+  /**
+   * Sets the merge request to merge once its pipeline succeeds. GitLab merges
+   * right away when the pipeline has already passed.
+   */
+  async enableAutoMerge(
+    project: string,
+    iid: number,
+    mergeMethod: 'merge' | 'squash' | 'rebase' = 'squash',
+    reason?: string
+  ): Promise<boolean> {
+    const id = encodeURIComponent(project)
+    let merged: boolean
+    try {
+      log(`☎️  Enabling auto-merge (${mergeMethod}) for MR !${iid}`)
+      const mr = await this.api<{ state: string }>(
+        'PUT',
+        `/projects/${id}/merge_requests/${iid}/merge`,
+        { merge_when_pipeline_succeeds: true, squash: mergeMethod === 'squash' }
+      )
+      merged = mr.state === 'merged'
+    } catch (e: unknown) {
+      log(
+        `⚠️ Could not enable auto-merge for MR !${iid}: ${e instanceof Error ? e.message : e}`
+      )
+      return false
+    }
+
+    if (reason) {
+      await this.api('POST', `/projects/${id}/merge_requests/${iid}/notes`, {
+        body: `🤖 ${merged ? 'Merged' : 'Auto-merge enabled'} (${mergeMethod}) because ${reason}.`
+      })
+    }
+    return true
+  }
+
+  async closeOutdatedMergeRequests(
+    project: string,
+    branchPattern: string | RegExp,
+    currentBranch: string
+  ): Promise<void> {
+    const id = encodeURIComponent(project)
+    log(`☎️  Checking for outdated Merge Requests matching: ${branchPattern}`)
+    const mergeRequests = await this.api<
+      { iid: number; title: string; source_branch: string }[]
+    >('GET', `/projects/${id}/merge_requests?state=opened&per_page=100`)
+
+    for (const mr of mergeRequests) {
+      if (isOutdatedBranch(mr.source_branch, branchPattern, currentBranch)) {
+        log(`☎️  Closing outdated Merge Request !${mr.iid}: ${mr.title}`)
+        await this.api(
+          'POST',
+          `/projects/${id}/merge_requests/${mr.iid}/notes`,
+          {
+            body: `Closing this MR because a newer version update is available: ${currentBranch}`
+          }
+        )
+        await this.api('PUT', `/projects/${id}/merge_requests/${mr.iid}`, {
+          state_event: 'close'
+        })
+      }
+    }
+  }
+
+  private async ensureLabels(
+    id: string,
+    labels: { name: string; color: string }[]
+  ): Promise<void> {
+    if (labels.length === 0) return
+    log(`🏷️  Ensuring labels exist: ${labels.map((l) => l.name).join(', ')}`)
+    for (const label of labels) {
+      try {
+        await this.api(
+          'GET',
+          `/projects/${id}/labels/${encodeURIComponent(label.name)}`
+        )
+      } catch {
+        log(`➕ Creating missing label: ${label.name}`)
+        await this.api('POST', `/projects/${id}/labels`, {
+          name: label.name,
+          color: `#${label.color}`
+        })
+      }
+    }
+  }
+}
+
+export class GiteaService {
+  readonly baseURL: string
+
+  constructor(
+    baseURL?: string,
+    private token?: string
+  ) {
+    this.baseURL = (baseURL || 'https://gitea.com').replace(/\/+$/, '')
+  }
+
+  async fetchAllReleases(
+    owner: string,
+    repo: string,
+    currentVersion: string,
+    maxReleases: number
+  ): Promise<Release[]> {
+    const cur = normalizeVersion(currentVersion)
+    const MAX_PAGES =
+      maxReleases === Infinity ? 20 : Math.ceil(maxReleases / 30) + 2
+    const maxLog = maxReleases === Infinity ? 'No Limit' : maxReleases
+
+    let allReleases: Release[] = []
+    log(
+      `☎️  Fetching releases for ${owner}/${repo} until ${currentVersion || 'latest'} (Max: ${maxLog})...`
+    )
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const url = `${this.baseURL}/api/v1/repos/${owner}/${repo}/releases?page=${page}&limit=30`
+      log(`☎️  Calling gitea GET ${url}`)
+      const res = await httpGet(
+        url,
+        this.token ? { Authorization: `token ${this.token}` } : {}
+      )
+      if (res.statusCode >= 400) {
+        throw new Error(
+          `Gitea request failed (${res.statusCode}) for ${owner}/${repo}: ${res.body}`
+        )
+      }
+
+      const releases = JSON.parse(res.body) as {
+        tag_name: string
+        name?: string
+        body?: string
+        html_url: string
+        draft?: boolean
+        published_at?: string
+        created_at: string
+      }[]
+      if (!releases || releases.length === 0) break
+
+      allReleases = allReleases.concat(
+        releases
+          .filter((r) => !r.draft)
+          .map((r) => ({
+            tag_name: r.tag_name,
+            name: r.name || undefined,
+            body: r.body || undefined,
+            html_url: r.html_url,
+            published_at: r.published_at || r.created_at
+          }))
+      )
+
+      if (!cur) break
+      if (releases.find((r) => normalizeVersion(r.tag_name) === cur)) {
+        log(`✅ Found current version ${currentVersion} at page ${page}`)
+        break
+      }
+    }
+
+    return allReleases
+  }
+
+  private async api<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const res = await httpSend(
+      method,
+      `${this.baseURL}/api/v1${path}`,
+      this.token ? { Authorization: `token ${this.token}` } : {},
+      body
+    )
+    if (res.statusCode >= 400) {
+      throw new Error(
+        `Gitea request failed (${res.statusCode}) for ${method} ${path}: ${res.body}`
+      )
+    }
+    return (res.body ? JSON.parse(res.body) : undefined) as T
+  }
+
+  async getDefaultBranch(owner: string, repo: string): Promise<string> {
+    const { default_branch } = await this.api<{ default_branch: string }>(
+      'GET',
+      `/repos/${owner}/${repo}`
+    )
+    return default_branch
+  }
+
+  async createOrUpdatePullRequest(
+    owner: string,
+    repo: string,
+    title: string,
+    head: string,
+    base: string,
+    body: string,
+    labels: { name: string; color: string }[] = [],
+    draft: boolean = false
+  ): Promise<number> {
+    const pullRequests = await this.api<
+      { number: number; head: { ref: string }; base: { ref: string } }[]
+    >('GET', `/repos/${owner}/${repo}/pulls?state=open&limit=50`)
+    const existing = pullRequests.find(
+      (pr) => pr.head.ref === head && pr.base.ref === base
+    )
+    // Gitea marks work in progress by title
+    const fullTitle = draft ? `WIP: ${title}` : title
+
+    let prNumber: number
+    if (existing) {
+      prNumber = existing.number
+      log(`☎️  Updating existing Pull Request #${prNumber}: ${title}`)
+      await this.api('PATCH', `/repos/${owner}/${repo}/pulls/${prNumber}`, {
+        title: fullTitle,
+        body
+      })
+    } else {
+      log(`☎️  Creating new Pull Request: ${title}`)
+      const pr = await this.api<{ number: number }>(
+        'POST',
+        `/repos/${owner}/${repo}/pulls`,
+        { head, base, title: fullTitle, body }
+      )
+      prNumber = pr.number
+    }
+
+    await this.addLabels(owner, repo, prNumber, labels)
+    return prNumber
+  }
+
+  async createOrUpdateIssue(
+    owner: string,
+    repo: string,
+    title: string,
+    body: string,
+    labels: { name: string; color: string }[] = []
+  ): Promise<number> {
+    const issues = await this.api<{ number: number; title: string }[]>(
+      'GET',
+      `/repos/${owner}/${repo}/issues?state=open&type=issues&q=${encodeURIComponent(title)}&limit=50`
+    )
+    const existing = issues.find((i) => i.title === title)
+
+    let issueNumber: number
+    if (existing) {
+      issueNumber = existing.number
+      log(`☎️  Updating existing issue #${issueNumber}: ${title}`)
+      await this.api('PATCH', `/repos/${owner}/${repo}/issues/${issueNumber}`, {
+        body
+      })
+    } else {
+      log(`☎️  Creating new issue: ${title}`)
+      const issue = await this.api<{ number: number }>(
+        'POST',
+        `/repos/${owner}/${repo}/issues`,
+        { title, body }
+      )
+      issueNumber = issue.number
+    }
+
+    await this.addLabels(owner, repo, issueNumber, labels)
+    return issueNumber
+  }
+
+  async closeOutdatedIssues(
+    owner: string,
+    repo: string,
+    titlePrefix: string,
+    currentTitle: string
+  ): Promise<void> {
+    log(`☎️  Checking for outdated issues with prefix: ${titlePrefix}`)
+    const issues = await this.api<{ number: number; title: string }[]>(
+      'GET',
+      `/repos/${owner}/${repo}/issues?state=open&type=issues&q=${encodeURIComponent(titlePrefix)}&limit=50`
+    )
+
+    for (const issue of issues) {
+      if (issue.title.startsWith(titlePrefix) && issue.title !== currentTitle) {
+        log(`☎️  Closing outdated issue #${issue.number}: ${issue.title}`)
+        await this.api(
+          'POST',
+          `/repos/${owner}/${repo}/issues/${issue.number}/comments`,
+          {
+            body: `Closing this issue because a newer version update is available: ${currentTitle}`
+          }
+        )
+        await this.api(
+          'PATCH',
+          `/repos/${owner}/${repo}/issues/${issue.number}`,
+          { state: 'closed' }
+        )
+      }
+    }
+  }
+
+  /**
+   * Schedules the pull request to merge once its checks succeed.
+   */
+  async enableAutoMerge(
+    owner: string,
+    repo: string,
+    prNumber: number,
+    mergeMethod: 'merge' | 'squash' | 'rebase' = 'squash',
+    reason?: string
+  ): Promise<boolean> {
+    try {
+      log(`☎️  Enabling auto-merge (${mergeMethod}) for PR #${prNumber}`)
+      await this.api(
+        'POST',
+        `/repos/${owner}/${repo}/pulls/${prNumber}/merge`,
+        {
+          Do: mergeMethod,
+          merge_when_checks_succeed: true
+        }
+      )
+    } catch (e: unknown) {
+      log(
+        `⚠️ Could not enable auto-merge for PR #${prNumber}: ${e instanceof Error ? e.message : e}`
+      )
+      return false
+    }
+
+    if (reason) {
+      await this.api(
+        'POST',
+        `/repos/${owner}/${repo}/issues/${prNumber}/comments`,
+        {
+          body: `🤖 Auto-merge enabled (${mergeMethod}) because ${reason}.`
+        }
+      )
+    }
+    return true
+  }
+
+  async closeOutdatedPullRequests(
+    owner: string,
+    repo: string,
+    branchPattern: string | RegExp,
+    currentBranch: string
+  ): Promise<void> {
+    log(`☎️  Checking for outdated Pull Requests matching: ${branchPattern}`)
+    const pullRequests = await this.api<
+      { number: number; title: string; head: { ref: string } }[]
+    >('GET', `/repos/${owner}/${repo}/pulls?state=open&limit=50`)
+
+    for (const pr of pullRequests) {
+      if (isOutdatedBranch(pr.head.ref, branchPattern, currentBranch)) {
+        log(`☎️  Closing outdated Pull Request #${pr.number}: ${pr.title}`)
+        await this.api(
+          'POST',
+          `/repos/${owner}/${repo}/issues/${pr.number}/comments`,
+          {
+            body: `Closing this PR because a newer version update is available: ${currentBranch}`
+          }
+        )
+        await this.api('PATCH', `/repos/${owner}/${repo}/pulls/${pr.number}`, {
+          state: 'closed'
+        })
+      }
+    }
+  }
+
+  // Gitea attaches labels by id, so missing ones are created first
+  private async addLabels(
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    labels: { name: string; color: string }[]
+  ): Promise<void> {
+    if (labels.length === 0) return
+    log(`🏷️  Ensuring labels exist: ${labels.map((l) => l.name).join(', ')}`)
+    const existing = await this.api<{ id: number; name: string }[]>(
+      'GET',
+      `/repos/${owner}/${repo}/labels?limit=50`
+    )
+    const ids: number[] = []
+    for (const label of labels) {
+      let match = existing.find((l) => l.name === label.name)
+      if (!match) {
+        log(`➕ Creating missing label: ${label.name}`)
+        match = await this.api<{ id: number; name: string }>(
+          'POST',
+          `/repos/${owner}/${repo}/labels`,
+          { name: label.name, color: `#${label.color}` }
+        )
+      }
+      ids.push(match.id)
+    }
+
+    log(`☎️  Adding labels to #${issueNumber}`)
+    await this.api(
+      'POST',
+      `/repos/${owner}/${repo}/issues/${issueNumber}/labels`,
+      { labels: ids }
+    )
+  }
+}
+
 export class OpenAIService {
   private openai: OpenAIClient | null = null
 
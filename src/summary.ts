@@ -0,0 +1,123 @@
+import * as core from '@actions/core'
+import { ApplicationResult } from './types.js'
+import { formatRisk } from './utils.js'
+
+type SummaryTableRow = Parameters<typeof core.summary.addTable>[0][number]
+
+export const STATUS_ICONS: Record<ApplicationResult['status'], string> = {
+  updated: '🚀',
+  issue: '📝',
+  'up-to-date': '✅',
+  skipped: '⏭️',
+  removed: '🗑️',
+  failed: '❌'
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function header(...cells: string[]): SummaryTableRow {
+  return cells.map((data) => ({ data, header: true }))
+}
+
+function addApplicationDetails(
+  result: ApplicationResult,
+  dryRun: boolean
+): void {
+  const summary = core.summary
+  summary.addHeading(escapeHtml(result.name), 3)
+
+  if (result.prUrl) {
+    summary.addRaw(
+      `<p>Pull request: <a href="${result.prUrl}">#${result.prNumber}</a></p>`,
+      true
+    )
+  } else if (dryRun && result.branch) {
+    summary.addRaw(
+      `<p>Dry run: a pull request would be opened from <code>${escapeHtml(result.branch)}</code>.</p>`,
+      true
+    )
+  }
+
+  if (result.changes?.length) {
+    summary.addTable([
+      header('File', 'Path', 'Change'),
+      ...result.changes.map((c) => [
+        `<code>${escapeHtml(c.file)}</code>`,
+        `<code>${escapeHtml(c.path)}</code>`,
+        `${escapeHtml(c.from)} → ${escapeHtml(c.to)}`
+      ])
+    ])
+  }
+
+  if (result.aiAssessment?.releases.length) {
+    summary.addTable([
+      header('Release', 'Risk', 'Worry-free', 'Summary'),
+      ...result.aiAssessment.releases.map((r) => [
+        `<a href="${r.html_url}">${escapeHtml(r.tag_name)}</a>`,
+        // The AI response is not validated, so any field may be missing
+        escapeHtml(formatRisk(r.risk ?? '-')),
+        r.worryFree ? '✅' : '⚠️',
+        escapeHtml(r.summary ?? '')
+      ])
+    ])
+  }
+
+  if (result.heldBack?.length) {
+    summary.addRaw('<p>Held back:</p>', true)
+    summary.addList(
+      result.heldBack.map(
+        (r) =>
+          `<a href="${r.html_url}">${escapeHtml(r.tag_name)}</a>: ${escapeHtml(r.reason)}`
+      )
+    )
+  }
+}
+
+/**
+ * Adds a report of the run to the job summary buffer: an overview of every
+ * application, then for each one with something to show the changed targets,
+ * the AI risk per release, held-back versions and the pull request.
+ */
+export function addRunSummary(
+  results: ApplicationResult[],
+  dryRun: boolean
+): void {
+  core.summary
+    .addHeading(`Version updates${dryRun ? ' (dry run)' : ''}`, 2)
+    .addTable([
+      header('Application', 'Status', 'Current', 'New', 'Bump', 'Risk'),
+      ...results.map((r) => [
+        escapeHtml(r.name),
+        `${STATUS_ICONS[r.status]} ${r.status}`,
+        escapeHtml(r.currentVersion || '-'),
+        escapeHtml(r.newVersion || '-'),
+        r.bumpType || '-',
+        r.risk ? formatRisk(r.risk) : '-'
+      ])
+    ])
+
+  for (const result of results) {
+    if (
+      result.changes?.length ||
+      result.aiAssessment?.releases.length ||
+      result.heldBack?.length
+    ) {
+      addApplicationDetails(result, dryRun)
+    }
+  }
+}
+
+/**
+ * Writes the run report to the job summary. Outside GitHub Actions there is
+ * no summary file, so nothing is written.
+ */
+export async function writeRunSummary(
+  results: ApplicationResult[],
+  dryRun: boolean
+): Promise<void> {
+  if (!process.env.GITHUB_STEP_SUMMARY) return
+  addRunSummary(results, dryRun)
+  await core.summary.write()
+}
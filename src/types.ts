@@ -1,3 +1,8 @@
+export type BumpType = 'major' | 'minor' | 'patch'
+
+// What to do with an update of a given bump type
+export type UpdateAction = 'pr' | 'draft' | 'issue' | 'automerge' | 'skip'
+
 export interface Target {
   file: string
   path: string
@@ -6,19 +11,71 @@ export interface Target {
 export interface AppConfig {
   repo: string
   type: 'kubernetes' | 'helm' | 'manual'
-  source: 'github' | 'dockerhub'
+  source:
+    | 'github'
+    | 'github-tags'
+    | 'gitlab'
+    | 'gitea'
+    | 'dockerhub'
+    | 'registry'
+    | 'helmrepo'
+    | 'helmoci'
   targets: Target[]
+  chart?: string
+  tagNotes?: 'none' | 'message' | 'compare'
   version?: string
   description?: string
   releaseFilter?: string
+  allowedVersions?: string
+  ignoreVersions?: string[]
+  minimumReleaseAge?: string
+  // Keep releases without a publish date when minimumReleaseAge is set
+  allowUndatedReleases?: boolean
+  updatePolicy?: Partial<Record<BumpType, UpdateAction>>
+  labels?: string[]
+  // Applications sharing a group are proposed in one pull request
+  group?: string
+  autoMerge?: {
+    enabled: boolean
+    maxRisk: RiskAssessment['risk']
+    mergeMethod: 'merge' | 'squash' | 'rebase'
+  }
+  versioning?: string
   openaiConfig?: {
     baseURL?: string
     model?: string
     apiKey?: string
     maxNoteLength?: number
   }
+  sourceConfig?: {
+    baseURL?: string
+    token?: string
+  }
+  // Where change requests and issues are opened, i.e. the repository holding
+  // the manifests
+  provider?: {
+    type: 'github' | 'gitlab' | 'gitea'
+    repository?: string
+    baseURL?: string
+    token?: string
+  }
+  registryCredentials?: {
+    // Registry the credentials are sent to, a host or an image reference on it
+    host?: string
+    username?: string
+    password?: string
+  }
   maxReleases: number
+  // Branch that update branches start from and pull requests target, empty
+  // until resolved to the repository's default branch
+  baseBranch: string
   dryRun: boolean
+  // git commits and pushes locally, api commits through the provider's API so
+  // the commits are signed
+  commitMode?: 'git' | 'api'
+  // Running outside GitHub Actions: files are changed in place without git,
+  // pull requests or step outputs
+  local?: boolean
   githubToken: string
   gitUserName: string
   gitUserEmail: string
@@ -28,6 +85,87 @@ export interface AppConfig {
   versionLagDepth: 'major' | 'minor' | 'patch'
 }
 
+// A file's new contents, with a path relative to the repository root
+export interface FileChange {
+  path: string
+  contents: string
+}
+
+// An entry under `applications:` in the versions config file
+export interface ApplicationEntry {
+  name?: string
+  repo: string
+  type?: AppConfig['type']
+  source?: AppConfig['source']
+  chart?: string
+  tagNotes?: AppConfig['tagNotes']
+  // gitlab/gitea host of this application, instead of source_base_url
+  sourceBaseUrl?: string
+  // Name of the environment variable that holds the source token
+  sourceTokenEnv?: string
+  targets?: Target[]
+  // Shorthand for a single target
+  file?: string
+  path?: string
+  version?: string | number
+  description?: string
+  releaseFilter?: string
+  allowedVersions?: string
+  ignoreVersions?: string | string[]
+  minimumReleaseAge?: string
+  allowUndatedReleases?: boolean
+  updatePolicy?: AppConfig['updatePolicy']
+  versioning?: string
+  versionLag?: number
+  versionLagDepth?: AppConfig['versionLagDepth']
+  includePrereleases?: boolean
+  maxReleases?: number
+  labels?: string[]
+  openaiModel?: string
+  openaiBaseUrl?: string
+  openaiMaxNoteLength?: number
+  group?: string
+  // Preset name(s) to inherit from, applied in order
+  extends?: string | string[]
+}
+
+// The shared settings a `defaults:` block or a preset can hold
+export type ApplicationSettings = Omit<ApplicationEntry, 'name' | 'repo'>
+
+// The versions config file as a whole
+export interface VersionsConfig {
+  defaults?: ApplicationSettings
+  presets?: Record<string, ApplicationSettings>
+  applications: ApplicationEntry[]
+}
+
+export interface ApplicationResult {
+  name: string
+  status: 'updated' | 'issue' | 'up-to-date' | 'skipped' | 'removed' | 'failed'
+  detail?: string
+  currentVersion?: string
+  newVersion?: string
+  bumpType?: BumpType
+  risk?: string
+  worryFree?: boolean
+  aiAssessment?: AggregateRisk
+  heldBack?: HeldBackRelease[]
+  // Where the update was proposed
+  branch?: string
+  prNumber?: number
+  prUrl?: string
+  changes?: TargetChange[]
+}
+
+// A value the update changed; manual applications change their version in
+// the config file
+export interface TargetChange {
+  file: string
+  path: string
+  from: string
+  to: string
+}
+
 export interface Release {
   tag_name: string
   name?: string
@@ -36,6 +174,29 @@ export interface Release {
   published_at: string
 }
 
+// A newer release that was found but deliberately not proposed
+export interface HeldBackRelease {
+  tag_name: string
+  html_url: string
+  reason: string
+}
+
+// One application's share of a grouped pull request
+export interface GroupedUpdate {
+  name: string
+  title: string
+  detail: string
+  aiAssessment: AggregateRisk | null
+  releases: Release[]
+  heldBack: HeldBackRelease[]
+  logs: string
+  labels: { name: string; color: string }[]
+  draft: boolean
+  autoMergeReason?: string
+  // What the update changed, for API commits
+  files?: FileChange[]
+}
+
 export interface RiskAssessment {
   tag_name: string
   html_url: string
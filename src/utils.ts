@@ -1,69 +1,106 @@
 import * as core from '@actions/core'
-import { Release } from './types.js'
+import { BumpType, GroupedUpdate, HeldBackRelease, Release } from './types.js'
+import type { VersionScheme } from './versioning.js'
 
 let globalDryRun = false
+let globalQuiet = false
 const logBuffer: string[] = []
 
 export function setGlobalDryRun(dryRun: boolean): void {
   globalDryRun = dryRun
 }
 
+// Quiet logs are only kept in the buffer, e.g. for the CLI's table output
+export function setGlobalQuiet(quiet: boolean): void {
+  globalQuiet = quiet
+}
+
 export function getLogBuffer(): string {
   return logBuffer.join('\n')
 }
 
+export function resetLogBuffer(): void {
+  logBuffer.length = 0
+}
+
 export function normalizeVersion(v: string): string {
   if (!v) return ''
   const match = v.match(/(\d+\.\d+.*)$/)
   return match ? match[1] : v.replace(/^v/, '')
 }
 
-export function isPrerelease(v: string): boolean {
-  const norm = normalizeVersion(v)
+export function isPrerelease(v: string, flavor: string = ''): boolean {
+  const norm = stripTagFlavor(normalizeVersion(v), flavor)
   return norm.includes('-')
 }
 
+// Suffixes that mark a prerelease rather than an image variant
+const PRERELEASE_SUFFIX =
+  /^-(?:alpha|beta|rc|pre|preview|dev|snapshot|canary|nightly|next|a|b)(?:[.-]?\d+)*(?:[.-][0-9a-z]+)*$/i
+
+/**
+ * Returns the image variant suffix of a tag (e.g. "-alpine" for
+ * "1.25.3-alpine"), or an empty string if the tag has none. Numeric suffixes
+ * such as the "-05-01" of "2024-05-01" are part of the version.
+ */
+export function getTagFlavor(tag: string): string {
+  const match = normalizeVersion(tag).match(/^\d+(?:\.\d+)*(-.+)$/)
+  if (!match || !/[a-z]/i.test(match[1]) || PRERELEASE_SUFFIX.test(match[1])) {
+    return ''
+  }
+  return match[1]
+}
+
+export function stripTagFlavor(tag: string, flavor: string): string {
+  return flavor && tag.endsWith(flavor) ? tag.slice(0, -flavor.length) : tag
+}
+
+/**
+ * Keeps the tags of the given image variant. Without a flavor only plain
+ * tags are kept, so an unflavored deployment never moves to e.g. "-alpine".
+ */
+export function filterByFlavor(releases: Release[], flavor: string): Release[] {
+  if (!flavor) return releases.filter((r) => getTagFlavor(r.tag_name) === '')
+  return releases.filter((r) => {
+    const norm = normalizeVersion(r.tag_name)
+    return (
+      norm.endsWith(flavor) &&
+      /^\d+(?:\.\d+)*(-[0-9A-Za-z.]+)?$/.test(stripTagFlavor(norm, flavor))
+    )
+  })
+}
+
 export function applyVersionLag(
   releases: Release[],
   versionLag: number,
-  depth: 'major' | 'minor' | 'patch' = 'minor'
+  depth: 'major' | 'minor' | 'patch' = 'minor',
+  scheme?: VersionScheme
 ): Release[] {
   if (versionLag <= 0 || releases.length === 0) return releases
 
+  const requiredLength = depth === 'major' ? 1 : depth === 'minor' ? 2 : 3
+  const groupOf = (r: Release): string | null => {
+    const parts = scheme
+      ? scheme.getParts(r.tag_name).map(String)
+      : normalizeVersion(r.tag_name).split('.')
+    return parts.length >= requiredLength
+      ? parts.slice(0, requiredLength).join('.')
+      : null
+  }
+
   const groups: string[] = []
   const uniqueGroups = new Set<string>()
   for (const r of releases) {
-    const norm = normalizeVersion(r.tag_name)
-    const parts = norm.split('.')
-    const requiredLength = depth === 'major' ? 1 : depth === 'minor' ? 2 : 3
-
-    if (parts.length >= requiredLength) {
-      let group
-      if (depth === 'major') {
-        group = parts[0]
-      } else if (depth === 'minor') {
-        group = `${parts[0]}.${parts[1]}`
-      } else {
-        group = `${parts[0]}.${parts[1]}.${parts[2]}`
-      }
-
-      if (!uniqueGroups.has(group)) {
-        uniqueGroups.add(group)
-        groups.push(group)
-      }
+    const group = groupOf(r)
+    if (group !== null && !uniqueGroups.has(group)) {
+      uniqueGroups.add(group)
+      groups.push(group)
     }
   }
 
   if (groups.length > versionLag) {
     const targetGroup = groups[versionLag]
-    return releases.filter((r) => {
-      const norm = normalizeVersion(r.tag_name)
-      // For patch depth, we need exact match since the group is the full version
-      if (depth === 'patch') {
-        return norm === targetGroup
-      }
-      return norm.startsWith(`${targetGroup}.`) || norm === targetGroup
-    })
+    return releases.filter((r) => groupOf(r) === targetGroup)
   }
 
   return releases
@@ -123,15 +160,38 @@ export function compareVersions(v1: string, v2: string): number {
   return 0
 }
 
+/**
+ * Classifies an update by the first release component that changes. Updates
+ * that change no component (digest refreshes, prerelease bumps) count as
+ * patches.
+ */
+export function getBumpType(
+  currentVersion: string,
+  targetVersion: string,
+  scheme?: VersionScheme
+): BumpType {
+  const parts = (v: string) =>
+    scheme
+      ? scheme.getParts(v)
+      : normalizeVersion(v).split(/[-+]/)[0].split('.').map(Number)
+  const cur = parts(currentVersion)
+  const target = parts(targetVersion)
+  if ((cur[0] ?? 0) !== (target[0] ?? 0)) return 'major'
+  if ((cur[1] ?? 0) !== (target[1] ?? 0)) return 'minor'
+  return 'patch'
+}
+
 export function getRelevantReleases(
   releases: Release[],
   currentVersion: string,
-  maxReleases: number
+  maxReleases: number,
+  scheme?: VersionScheme
 ): Release[] {
-  const cur = normalizeVersion(currentVersion)
+  const normalize = scheme ? scheme.normalize : normalizeVersion
+  const cur = normalize(currentVersion)
   const relevant: Release[] = []
   for (const r of releases) {
-    const tag = normalizeVersion(r.tag_name)
+    const tag = normalize(r.tag_name)
     if (tag === cur) break
     relevant.push(r)
     if (relevant.length >= maxReleases) break
@@ -139,12 +199,29 @@ export function getRelevantReleases(
   return relevant
 }
 
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+}
+
+/**
+ * Parses durations such as "30m", "12h", "3d" or "2w" into milliseconds.
+ * A bare number is read as days.
+ */
+export function parseDuration(duration: string): number {
+  const match = duration.trim().match(/^(\d+(?:\.\d+)?)\s*([mhdw]?)$/i)
+  if (!match) throw new Error(`Invalid duration: ${duration}`)
+  return Number(match[1]) * DURATION_UNITS[(match[2] || 'd').toLowerCase()]
+}
+
 export function log(message: string, dryRun: boolean = globalDryRun): void {
   const prefix = dryRun ? '[DRY RUN] ' : ''
   const lines = message.split('\n')
   for (const line of lines) {
     const formatted = `${prefix}${line}`
-    core.info(formatted)
+    if (!globalQuiet) core.info(formatted)
     logBuffer.push(formatted)
   }
 }
@@ -164,6 +241,13 @@ export function formatRisk(risk: string): string {
   }
 }
 
+const RISK_LEVELS = ['None', 'Low', 'Medium', 'High']
+
+export function isRiskAtOrBelow(risk: string, maxRisk: string): boolean {
+  const level = RISK_LEVELS.indexOf(risk)
+  return level !== -1 && level <= RISK_LEVELS.indexOf(maxRisk)
+}
+
 export function generatePrBody(
   displayName: string,
   aiAssessment: {
@@ -185,6 +269,7 @@ export function generatePrBody(
     published_at: string
   }[],
   logBuffer: string,
+  heldBack: HeldBackRelease[] = [],
   maxBodySize: number = 65000
 ): string {
   let prBody
@@ -223,6 +308,13 @@ export function generatePrBody(
       }
     }
 
+    if (heldBack.length > 0) {
+      prBody += `\n### ⏸️ Held Back Versions\n`
+      for (const rel of heldBack) {
+        prBody += `- **[${rel.tag_name}](${rel.html_url})**: ${rel.reason}\n`
+      }
+    }
+
     if (includeLogs) {
       prBody += `\n---\n<details>\n<summary>📄 Full Execution Logs</summary>\n\n\`\`\`text\n${logBuffer}\n\`\`\`\n</details>\n`
     }
@@ -245,3 +337,34 @@ export function generatePrBody(
 
   return prBody
 }
+
+/**
+ * Builds the body of a grouped pull request from each application's section,
+ * sharing the size budget between them.
+ */
+export function generateGroupPrBody(
+  group: string,
+  updates: GroupedUpdate[],
+  maxBodySize: number = 65000
+): string {
+  const separator = '\n\n---\n\n'
+  const header =
+    `Grouped version update for **${group}**:\n` +
+    updates.map((u) => `- **${u.name}**: ${u.detail}`).join('\n')
+  const sectionSize = Math.floor(
+    (maxBodySize - header.length) / updates.length - separator.length
+  )
+  return [
+    header,
+    ...updates.map((u) =>
+      generatePrBody(
+        u.name,
+        u.aiAssessment,
+        u.releases,
+        u.logs,
+        u.heldBack,
+        sectionSize
+      )
+    )
+  ].join(separator)
+}
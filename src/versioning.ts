@@ -0,0 +1,275 @@
+import {
+  normalizeVersion,
+  compareVersions,
+  isPrerelease,
+  stripTagFlavor,
+  getTagFlavor
+} from './utils.js'
+
+export interface VersionScheme {
+  name: string
+  isValid(version: string): boolean
+  // The form of the version that is compared for equality and written back
+  normalize(version: string): string
+  compare(v1: string, v2: string): number
+  isPrerelease(version: string, flavor?: string): boolean
+  // Numeric release components, used for lag groups and bump classification
+  getParts(version: string): number[]
+  // Whether a tag suffix such as "-alpine" marks an image variant to stay on.
+  // Date and pattern based versions define their own suffixes.
+  tagFlavors: boolean
+}
+
+const PRERELEASE_KEYWORD =
+  /(?:^|[^a-z])(?:alpha|beta|rc|pre|preview|dev|snapshot|canary|nightly)(?:[^a-z]|$)/i
+
+function compareParts(parts1: number[], parts2: number[]): number {
+  for (let i = 0; i < Math.max(parts1.length, parts2.length); i++) {
+    const p1 = parts1[i] ?? 0
+    const p2 = parts2[i] ?? 0
+    if (p1 > p2) return 1
+    if (p1 < p2) return -1
+  }
+  return 0
+}
+
+function digitRuns(value: string): number[] {
+  return (value.match(/\d+/g) || []).map(Number)
+}
+
+// Versions start with numeric major.minor components; normalizeVersion drops
+// a prefix such as "v" or "app-v"
+const semver: VersionScheme = {
+  name: 'semver',
+  isValid: (v) =>
+    /^\d+\.\d+(\.\d+)*([-+_][0-9A-Za-z.-]+)?$/.test(normalizeVersion(v)),
+  normalize: normalizeVersion,
+  compare: compareVersions,
+  isPrerelease,
+  tagFlavors: true,
+  getParts: (v) =>
+    normalizeVersion(v)
+      .split(/[-+]/)[0]
+      .split('.')
+      .map(Number)
+      .filter((n) => !isNaN(n))
+}
+
+// Any number of numeric components, with build metadata (e.g. "+build5")
+// treated as a further component and prereleases detected by keyword.
+const loose: VersionScheme = {
+  name: 'loose',
+  isValid: (v) => /\d/.test(v),
+  normalize: (v) => v.replace(/^v/, ''),
+  compare: (v1, v2) =>
+    compareParts(loose.getParts(v1), loose.getParts(v2)) ||
+    Number(!loose.isPrerelease(v1)) - Number(!loose.isPrerelease(v2)),
+  isPrerelease: (v, flavor = '') =>
+    PRERELEASE_KEYWORD.test(stripTagFlavor(loose.normalize(v), flavor)),
+  tagFlavors: true,
+  getParts: (v) => {
+    const [release, build] = loose.normalize(v).split('+')
+    return digitRuns(release.split('-')[0]).concat(digitRuns(build || ''))
+  }
+}
+
+// Date based versions such as "2024.10.1", "24.05" or
+// "RELEASE.2024-05-01T00-00-00Z", compared component by component.
+const calver: VersionScheme = {
+  name: 'calver',
+  isValid: (v) => /^\D*(\d{2}|\d{4})\D\d+/.test(v),
+  normalize: (v) => v.replace(/^v/, ''),
+  compare: (v1, v2) =>
+    compareParts(calver.getParts(v1), calver.getParts(v2)) ||
+    Number(!calver.isPrerelease(v1)) - Number(!calver.isPrerelease(v2)),
+  isPrerelease: (v, flavor = '') =>
+    PRERELEASE_KEYWORD.test(stripTagFlavor(calver.normalize(v), flavor)),
+  tagFlavors: false,
+  getParts: (v) => digitRuns(calver.normalize(v))
+}
+
+// Docker tags: numeric components followed by an optional suffix that marks
+// the image variant rather than a prerelease. Equal versions rank the plain
+// tag first, then order by suffix so the pick never depends on listing order.
+const docker: VersionScheme = {
+  name: 'docker',
+  isValid: (v) => /^v?\d+(\.\d+)*(-.+)?$/.test(v),
+  normalize: (v) => v.replace(/^v/, ''),
+  compare: (v1, v2) =>
+    compareParts(docker.getParts(v1), docker.getParts(v2)) ||
+    Number(!getTagFlavor(v1)) - Number(!getTagFlavor(v2)) ||
+    Math.sign(
+      docker
+        .normalize(v1)
+        .localeCompare(docker.normalize(v2), 'en', { numeric: true })
+    ),
+  isPrerelease: () => false,
+  tagFlavors: true,
+  getParts: (v) => digitRuns(docker.normalize(v).split('-')[0])
+}
+
+/**
+ * Builds a scheme from a regex with named capture groups, e.g.
+ * "^v(?<major>\d+)\.(?<minor>\d+)\.(?<patch>\d+)(-(?<prerelease>.+))?$".
+ * Supported groups are major, minor, patch, build and prerelease.
+ */
+function regexScheme(pattern: string): VersionScheme {
+  const regex = new RegExp(pattern)
+  if (!/\(\?<major>/.test(pattern)) {
+    throw new Error(
+      `Regex versioning requires a "major" capture group: ${pattern}`
+    )
+  }
+
+  const groups = (v: string) => v.match(regex)?.groups
+
+  const scheme: VersionScheme = {
+    name: `regex:${pattern}`,
+    isValid: (v) => regex.test(v),
+    normalize: (v) => v,
+    compare: (v1, v2) => {
+      const byParts = compareParts(scheme.getParts(v1), scheme.getParts(v2))
+      if (byParts !== 0) return byParts
+      const pre1 = groups(v1)?.prerelease || ''
+      const pre2 = groups(v2)?.prerelease || ''
+      if (!pre1 && pre2) return 1
+      if (pre1 && !pre2) return -1
+      return pre1 === pre2 ? 0 : pre1 > pre2 ? 1 : -1
+    },
+    isPrerelease: (v) => !!groups(v)?.prerelease,
+    tagFlavors: false,
+    getParts: (v) => {
+      const g = groups(v)
+      if (!g) return []
+      return ['major', 'minor', 'patch', 'build']
+        .filter((name) => g[name] !== undefined)
+        .map((name) => Number(g[name]))
+    }
+  }
+  return scheme
+}
+
+const SCHEMES: Record<string, VersionScheme> = { semver, loose, calver, docker }
+
+export function getVersionScheme(versioning?: string): VersionScheme {
+  if (!versioning) return semver
+  if (versioning.startsWith('regex:')) {
+    return regexScheme(versioning.slice('regex:'.length))
+  }
+  const scheme = SCHEMES[versioning]
+  if (!scheme) {
+    throw new Error(
+      `Unknown versioning scheme "${versioning}". Expected one of: ${Object.keys(SCHEMES).join(', ')}, regex:<pattern>`
+    )
+  }
+  return scheme
+}
+
+function satisfiesComparator(
+  parts: number[],
+  comparator: string,
+  scheme: VersionScheme
+): boolean {
+  const match = comparator.match(/^(>=|<=|>|<|=|\^|~)?v?(.+)$/)
+  if (!match) return false
+  const [, operator = '', rawBound] = match
+
+  // Wildcards such as "1.x" or "1.2.*" only pin the leading components
+  const bound = /(^|\.)[x*]$/i.test(rawBound)
+    ? rawBound
+        .split('.')
+        .filter((p) => !/^[x*]$/i.test(p))
+        .map(Number)
+    : scheme.getParts(rawBound)
+  if (bound.length === 0) return true
+
+  const cmp = compareParts(parts, bound)
+  const upper = (index: number) => {
+    const next = bound.slice(0, index + 1)
+    next[index] = (next[index] ?? 0) + 1
+    return compareParts(parts, next) < 0
+  }
+
+  switch (operator) {
+    case '>=':
+      return cmp >= 0
+    case '<=':
+      return cmp <= 0
+    case '>':
+      return cmp > 0
+    case '<':
+      return cmp < 0
+    case '^': {
+      // Lock the first non-zero component, e.g. ^0.2.3 := >=0.2.3 <0.3.0
+      const index = bound.findIndex((p) => p !== 0)
+      return (
+        cmp >= 0 && upper(index === -1 ? bound.length - 1 : Math.min(index, 2))
+      )
+    }
+    case '~':
+      return cmp >= 0 && upper(bound.length > 1 ? 1 : 0)
+    default:
+      // Partial versions match as a prefix, so "=1.2" behaves like "1.2.x"
+      return compareParts(parts.slice(0, bound.length), bound) === 0
+  }
+}
+
+// "1.2 - 2.0" := >=1.2 <2.1: a partial upper bound takes in every version
+// it is a prefix of
+function satisfiesHyphenRange(
+  parts: number[],
+  range: string,
+  scheme: VersionScheme
+): boolean {
+  const bounds = range.split(/\s+-\s+/)
+  if (bounds.length !== 2 || bounds.some((b) => /[\s<>=^~|]/.test(b))) {
+    throw new Error(
+      `Invalid hyphen range "${range}", expected "<lower> - <upper>"`
+    )
+  }
+  const upper = scheme.getParts(bounds[1].replace(/^v/, ''))
+  return (
+    satisfiesComparator(parts, `>=${bounds[0]}`, scheme) &&
+    compareParts(parts.slice(0, upper.length), upper) <= 0
+  )
+}
+
+/**
+ * Checks a version against a range such as ">=2.3 <3", "1.x", "^1.2",
+ * "~1.2.3", "1.2 - 2.0" or several of those joined with "||".
+ */
+export function satisfiesRange(
+  version: string,
+  range: string,
+  scheme: VersionScheme = semver
+): boolean {
+  const parts = scheme.getParts(version)
+  return range.split('||').some((alternative) => {
+    if (/\s-\s/.test(alternative)) {
+      return satisfiesHyphenRange(parts, alternative.trim(), scheme)
+    }
+    return alternative
+      .trim()
+      .replace(/(>=|<=|>|<|=)\s+/g, '$1')
+      .split(/\s+/)
+      .filter(Boolean)
+      .every((comparator) => satisfiesComparator(parts, comparator, scheme))
+  })
+}
+
+/**
+ * Matches a version against an ignore entry: "/regex/flags", a range (see
+ * satisfiesRange) or an exact version.
+ */
+export function matchesVersionPattern(
+  version: string,
+  pattern: string,
+  scheme: VersionScheme = semver
+): boolean {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/)
+  if (regex) return new RegExp(regex[1], regex[2]).test(version)
+  if (/[<>=^~|*\s]|(^|\.)x(\.|$)/i.test(pattern)) {
+    return satisfiesRange(version, pattern, scheme)
+  }
+  return scheme.normalize(version) === scheme.normalize(pattern)
+}